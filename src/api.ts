@@ -0,0 +1,259 @@
+/**
+ * JSON HTTP API (read-only)
+ * Serves the latest aggregation run and the KV history to dashboards.
+ *
+ * Routes:
+ *   GET /api/yields              - pools from the latest run
+ *       ?category=STABLE           category ID or /yields alias
+ *       &chain=TON&protocol=EVAA   exact match (case-insensitive)
+ *       &minApy=5&minTvl=100000    lower bounds
+ *       &limit=50&offset=0         pagination (limit up to 200)
+ *   GET /api/pools/:id/history   - daily APY/TVL snapshots of a pool (last 30 days)
+ *   GET /api/tvl/history         - daily TON DeFi TVL (last 30 days)
+ *   GET /api/protocols           - protocols in the latest run (paginated like /api/yields)
+ *
+ * Responses carry an ETag; clients sending it back in If-None-Match get 304.
+ */
+
+import type { YieldOpportunity } from "./types/yields.ts";
+import { categorizeYield, findCategoryByAlias } from "./services/categories.ts";
+import { type LatestRun, loadLatestRun } from "./services/latest_run.ts";
+import { getPoolHistory } from "./services/apy_history.ts";
+import { getTvlHistory } from "./services/tvl_history.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/** Data changes once a day; let clients and proxies reuse it for a few minutes */
+const CACHE_CONTROL = "public, max-age=300";
+
+/**
+ * Invalid request (reported to the client as a JSON error)
+ */
+class ApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Pagination of a list response
+ */
+interface Page {
+  limit: number;
+  offset: number;
+  total: number;
+}
+
+/**
+ * Read an optional non-negative number query parameter
+ */
+function getNumberParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new ApiError(400, `Invalid ${name}: "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Slice a list according to ?limit and ?offset
+ */
+function paginate<T>(items: T[], params: URLSearchParams): { data: T[]; pagination: Page } {
+  const limit = Math.floor(getNumberParam(params, "limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Math.floor(getNumberParam(params, "offset") ?? 0);
+  if (limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return {
+    data: items.slice(offset, offset + limit),
+    pagination: { limit, offset, total: items.length },
+  };
+}
+
+/**
+ * Load the latest run, or fail with 503 before the first run is stored
+ */
+async function requireLatestRun(): Promise<LatestRun> {
+  const run = await loadLatestRun();
+  if (!run) {
+    throw new ApiError(503, "No aggregation run stored yet");
+  }
+  return run;
+}
+
+/**
+ * GET /api/yields
+ */
+async function listYields(params: URLSearchParams): Promise<unknown> {
+  const run = await requireLatestRun();
+
+  const categoryParam = params.get("category");
+  const category = categoryParam ? findCategoryByAlias(categoryParam) : undefined;
+  if (categoryParam && !category) {
+    throw new ApiError(400, `Unknown category: "${categoryParam}"`);
+  }
+  const chain = params.get("chain")?.toLowerCase();
+  const protocol = params.get("protocol")?.toLowerCase();
+  const minApy = getNumberParam(params, "minApy");
+  const minTvl = getNumberParam(params, "minTvl");
+
+  const pools = run.pools
+    .map(pool => ({ ...pool, category: categorizeYield(pool)?.id ?? null }))
+    .filter(pool =>
+      (!category || pool.category === category.id) &&
+      (!chain || pool.chain.toLowerCase() === chain) &&
+      (!protocol || pool.source.toLowerCase() === protocol) &&
+      (minApy === undefined || pool.apyTotal >= minApy) &&
+      (minTvl === undefined || pool.tvlUsd >= minTvl)
+    );
+
+  return { updatedAt: run.report.finishedAt, ...paginate(pools, params) };
+}
+
+/**
+ * GET /api/protocols
+ * Protocols sorted by total TVL (highest first)
+ */
+async function listProtocols(params: URLSearchParams): Promise<unknown> {
+  const run = await requireLatestRun();
+
+  const byProtocol = new Map<string, YieldOpportunity[]>();
+  for (const pool of run.pools) {
+    byProtocol.set(pool.source, [...(byProtocol.get(pool.source) ?? []), pool]);
+  }
+
+  const protocols = [...byProtocol].map(([name, pools]) => ({
+    name,
+    url: pools[0].sourceUrl,
+    chains: [...new Set(pools.map(p => p.chain))],
+    categories: [...new Set(pools.map(p => categorizeYield(p)?.id).filter((id): id is string => id !== undefined))],
+    pools: pools.length,
+    tvlUsd: pools.reduce((sum, p) => sum + p.tvlUsd, 0),
+    maxApy: Math.max(...pools.map(p => p.apyTotal)),
+  })).sort((a, b) => b.tvlUsd - a.tvlUsd);
+
+  return { updatedAt: run.report.finishedAt, ...paginate(protocols, params) };
+}
+
+/**
+ * GET /api/pools/:id/history
+ */
+async function getPoolHistoryResponse(poolId: string): Promise<unknown> {
+  const snapshots = await getPoolHistory(poolId);
+  if (snapshots.length === 0) {
+    throw new ApiError(404, `No history for pool "${poolId}"`);
+  }
+  return {
+    id: poolId,
+    label: snapshots[snapshots.length - 1].label ?? null,
+    data: snapshots.map(s => ({ date: s.date, apy: s.apy, tvlUsd: s.tvl ?? null })),
+  };
+}
+
+/**
+ * GET /api/tvl/history
+ */
+async function getTvlHistoryResponse(): Promise<unknown> {
+  const snapshots = await getTvlHistory();
+  return { data: snapshots.map(s => ({ date: s.date, tvlUsd: s.tvl })) };
+}
+
+/**
+ * Route an /api request to its handler
+ */
+function route(pathname: string, params: URLSearchParams): Promise<unknown> {
+  if (pathname === "/api/yields") {
+    return listYields(params);
+  }
+  if (pathname === "/api/protocols") {
+    return listProtocols(params);
+  }
+  if (pathname === "/api/tvl/history") {
+    return getTvlHistoryResponse();
+  }
+
+  // Pool IDs contain ":" (e.g. "defillama:ton:<uuid>") and arrive URL-encoded
+  const historyMatch = pathname.match(/^\/api\/pools\/([^/]+)\/history$/);
+  if (historyMatch) {
+    let poolId: string;
+    try {
+      poolId = decodeURIComponent(historyMatch[1]);
+    } catch {
+      throw new ApiError(400, "Malformed pool ID");
+    }
+    return getPoolHistoryResponse(poolId);
+  }
+
+  throw new ApiError(404, "Not Found");
+}
+
+/**
+ * Strong ETag from the response body
+ */
+async function computeEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(body));
+  const hex = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+  return `"${hex}"`;
+}
+
+/**
+ * Check an If-None-Match header against the current ETag
+ */
+function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch.split(",").some(tag => {
+    const trimmed = tag.trim();
+    return trimmed === "*" || trimmed === etag || trimmed === `W/${etag}`;
+  });
+}
+
+/**
+ * Check whether a path belongs to the API
+ */
+export function isApiPath(pathname: string): boolean {
+  return pathname === "/api" || pathname.startsWith("/api/");
+}
+
+/**
+ * Handle an /api request
+ */
+export async function handleApiRequest(request: Request): Promise<Response> {
+  const headers = new Headers({
+    "Access-Control-Allow-Origin": "*",
+    "Cache-Control": CACHE_CONTROL,
+  });
+
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    headers.set("Allow", "GET, HEAD");
+    return Response.json({ error: "Method Not Allowed" }, { status: 405, headers });
+  }
+
+  const url = new URL(request.url);
+  try {
+    const body = JSON.stringify(await route(url.pathname, url.searchParams));
+    const etag = await computeEtag(body);
+    headers.set("ETag", etag);
+
+    if (matchesEtag(request.headers.get("If-None-Match"), etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    headers.set("Content-Type", "application/json; charset=utf-8");
+    return new Response(request.method === "HEAD" ? null : body, { status: 200, headers });
+  } catch (error) {
+    headers.set("Cache-Control", "no-store");
+    if (error instanceof ApiError) {
+      return Response.json({ error: error.message }, { status: error.status, headers });
+    }
+    console.error(`API request failed (${url.pathname}):`, error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500, headers });
+  }
+}
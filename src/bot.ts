@@ -1,5 +1,18 @@
-import { Bot } from "grammy";
+import { Bot, InputFile } from "grammy";
 import { config } from "./config.ts";
+import { buildYieldsReply, parseYieldsQuery } from "./commands/yields.ts";
+import { handleAlertCommand } from "./commands/alert.ts";
+import { buildExportFiles, EXPORT_USAGE, parseExportCommand } from "./commands/export.ts";
+import {
+  APPROVAL_DECISIONS,
+  buildApprovalKeyboard,
+  formatApprovalPrompt,
+  formatApprovalResult,
+  formatApproverName,
+  parseApprovalCallback,
+} from "./commands/approval.ts";
+import { getCategories } from "./services/categories.ts";
+import { decideDraft, type DeliveryProgress, type PostDraft } from "./services/approvals.ts";
 
 /**
  * Create and configure the Telegram bot instance
@@ -14,12 +27,14 @@ export function createBot(): Bot {
       "I aggregate yield opportunities from TON blockchain protocols and post daily updates.\n\n" +
       "Commands:\n" +
       "/yields - Get current yields\n" +
+      "/alert - Manage your yield alerts\n" +
       "/help - Show this message"
     );
   });
   
   // Handle /help command
   bot.command("help", (ctx) => {
+    const categoryKeywords = getCategories().map(c => c.aliases?.[0] ?? c.id.toLowerCase()).join(", ");
     ctx.reply(
       "📊 <b>TON Yields Bot Help</b>\n\n" +
       "This bot tracks yield opportunities across TON blockchain:\n\n" +
@@ -29,11 +44,93 @@ export function createBot(): Bot {
       "Data is sourced from DefiLlama and updated daily.\n\n" +
       "Commands:\n" +
       "/yields - Get current yields snapshot\n" +
+      `/yields stable - Only one category (${categoryKeywords})\n` +
+      "/yields ton min=5 - Only pools with APY of at least 5%\n" +
+      "/yields evaa - Only one protocol\n" +
+      "/alert - Personal DM alerts (e.g. /alert add USDT apy>8)\n" +
       "/help - Show this help message",
       { parse_mode: "HTML" }
     );
   });
   
+  // Handle /yields command (optional category, protocol and min=APY filters)
+  bot.command("yields", async (ctx) => {
+    try {
+      const reply = await buildYieldsReply(parseYieldsQuery(ctx.match));
+      await ctx.reply(reply, {
+        parse_mode: "HTML",
+        link_preview_options: { is_disabled: true },
+      });
+    } catch (error) {
+      console.error("Failed to handle /yields:", error);
+      await ctx.reply("⚠️ Couldn't fetch yields right now, please try again later.");
+    }
+  });
+  
+  // Handle /alert command (per-user alerts, DM only)
+  bot.command("alert", async (ctx) => {
+    if (ctx.chat.type !== "private") {
+      await ctx.reply("Alerts are personal - please message me directly to manage them.");
+      return;
+    }
+    try {
+      await ctx.reply(await handleAlertCommand(ctx.chat.id, ctx.match));
+    } catch (error) {
+      console.error("Failed to handle /alert:", error);
+      await ctx.reply("⚠️ Couldn't update your alerts right now, please try again later.");
+    }
+  });
+  
+  // Handle /export command (admin chat only - history is internal data)
+  bot.command("export", async (ctx) => {
+    if (!isAdminChat(ctx.chat.id)) {
+      await ctx.reply("This command is only available in the admin chat.");
+      return;
+    }
+    const command = parseExportCommand(ctx.match);
+    if (command.action === "help") {
+      await ctx.reply(`⚠️ ${command.error}\n\n${EXPORT_USAGE}`);
+      return;
+    }
+    try {
+      const files = await buildExportFiles(command);
+      for (const [name, content] of Object.entries(files)) {
+        await ctx.replyWithDocument(new InputFile(new TextEncoder().encode(content), name));
+      }
+    } catch (error) {
+      console.error("Failed to handle /export:", error);
+      await ctx.reply("⚠️ Couldn't export history right now, please try again later.");
+    }
+  });
+  
+  // Handle the Publish / Skip / Regenerate buttons under a draft preview (admin chat only)
+  bot.callbackQuery(/^approval:/, async (ctx) => {
+    const chatId = ctx.callbackQuery.message?.chat.id;
+    const callback = parseApprovalCallback(ctx.callbackQuery.data);
+    if (chatId === undefined || !isAdminChat(chatId) || !callback) {
+      await ctx.answerCallbackQuery({ text: "This button isn't available here." });
+      return;
+    }
+    
+    // Publishing and regenerating are queued with the decision: they outlast a webhook update
+    let draft: PostDraft | null;
+    try {
+      const approver = { id: ctx.from.id, name: formatApproverName(ctx.from) };
+      draft = await decideDraft(callback.draftId, APPROVAL_DECISIONS[callback.action], approver);
+    } catch (error) {
+      console.error("Failed to handle approval:", error);
+      await ctx.answerCallbackQuery({ text: "⚠️ Couldn't complete that, please try again." });
+      return;
+    }
+    
+    if (!draft) {
+      await ctx.answerCallbackQuery({ text: "This preview was already handled." });
+      return;
+    }
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageText(formatApprovalResult(draft));
+  });
+  
   // Handle errors
   bot.catch((err) => {
     console.error("Bot error:", err);
@@ -43,21 +140,91 @@ export function createBot(): Bot {
 }
 
 /**
- * Send a message to the configured channel
+ * Send messages to a chat in order, each later one as a reply to the first so
+ * a split post reads as a thread
+ * Starts after the messages `progress` says were already sent and reports
+ * progress after every message, so an interrupted thread can be resumed.
+ * Returns the first message's ID.
  */
-export async function sendToChannel(bot: Bot, message: string): Promise<void> {
-  try {
-    await bot.api.sendMessage(config.telegramChannelId, message, {
+async function sendThread(
+  bot: Bot,
+  chatId: string,
+  messages: string[],
+  progress: DeliveryProgress = { sent: 0 },
+  onProgress?: (progress: DeliveryProgress) => Promise<void>,
+): Promise<number | undefined> {
+  let firstMessageId = progress.firstMessageId;
+  for (let index = progress.sent; index < messages.length; index++) {
+    const sent = await bot.api.sendMessage(chatId, messages[index], {
       parse_mode: "HTML",
-      disable_web_page_preview: true,
+      link_preview_options: { is_disabled: true },
+      reply_parameters: firstMessageId ? { message_id: firstMessageId } : undefined,
     });
-    console.log("Message sent to channel successfully");
+    firstMessageId ??= sent.message_id;
+    await onProgress?.({ sent: index + 1, firstMessageId });
+  }
+  return firstMessageId;
+}
+
+/**
+ * Send a message to the configured channel
+ * Several messages (a split post) are sent as a thread; pass the progress of an
+ * earlier, interrupted send to continue it instead of starting over
+ */
+export async function sendToChannel(
+  bot: Bot,
+  message: string | string[],
+  progress?: DeliveryProgress,
+  onProgress?: (progress: DeliveryProgress) => Promise<void>,
+): Promise<void> {
+  const messages = Array.isArray(message) ? message : [message];
+  try {
+    await sendThread(bot, config.telegramChannelId, messages, progress, onProgress);
+    console.log(`Message sent to channel successfully (${messages.length} part(s))`);
   } catch (error) {
     console.error("Failed to send message to channel:", error);
     throw error;
   }
 }
 
+/**
+ * Preview a draft in the admin chat, followed by the Publish / Skip / Regenerate prompt
+ */
+export async function sendDraftPreview(bot: Bot, draft: PostDraft): Promise<void> {
+  if (!config.telegramAdminChatId) {
+    throw new Error("TELEGRAM_ADMIN_CHAT_ID is required for post approval");
+  }
+  const firstMessageId = await sendThread(bot, config.telegramAdminChatId, draft.messages);
+  await bot.api.sendMessage(config.telegramAdminChatId, formatApprovalPrompt(draft), {
+    reply_markup: buildApprovalKeyboard(draft.id),
+    reply_parameters: firstMessageId ? { message_id: firstMessageId } : undefined,
+  });
+  console.log(`Draft ${draft.id} sent to the admin chat for approval`);
+}
+
+/**
+ * Check whether a chat is the configured admin chat
+ */
+function isAdminChat(chatId: number): boolean {
+  return config.telegramAdminChatId !== "" && String(chatId) === config.telegramAdminChatId;
+}
+
+/**
+ * Send an operational notice to the admin chat
+ * Does nothing when TELEGRAM_ADMIN_CHAT_ID isn't set; failures are logged, never thrown
+ */
+export async function notifyAdmin(bot: Bot, text: string): Promise<void> {
+  if (!config.telegramAdminChatId) {
+    console.log("No admin chat configured, skipping admin notice");
+    return;
+  }
+  try {
+    await bot.api.sendMessage(config.telegramAdminChatId, text);
+  } catch (error) {
+    console.error("Failed to notify admin:", error);
+  }
+}
+
 /**
  * Get the bot instance (singleton pattern for Deno Deploy)
  */
@@ -0,0 +1,279 @@
+/**
+ * Command Line
+ * Subcommands for running the pipeline by hand:
+ *   preview [--format html|md|text|json]    - print the daily post (default: text, never writes KV)
+ *   post                                    - post to the channel now
+ *   backfill                                - record the day's APY/TVL snapshots without posting
+ *   sources                                 - list yield sources and their last run status
+ *   export <dir|file.json> [--from] [--to]  - export stored history
+ *   import <dir|file.json>                  - import exported history
+ *
+ * Run options (preview, post, backfill):
+ *   --only merkl,euler    fetch these sources only (preview, post)
+ *   --category STABLE     keep one category (preview, post)
+ *   --as-of 2026-10-01    run as if it were that day (preview, backfill)
+ *   --fixtures <dir>      replay recorded upstream responses instead of the network
+ *   --no-kv-write         leave KV untouched (post, backfill; preview never writes)
+ *
+ * Without a subcommand the bot serves webhooks. The older flags (--post-now,
+ * --test, --format, --export, --import, --set-webhook, --delete-webhook) still work.
+ */
+
+import { isOutputFormat, OUTPUT_FORMATS, type OutputFormat } from "./formatters/report.ts";
+import { type DateRange, parseDateRange } from "./services/history_export.ts";
+import { findCategoryByAlias, getCategories } from "./services/categories.ts";
+import { YIELD_SOURCES } from "./services/sources.ts";
+import { MAX_HISTORY_DAYS } from "./services/snapshot_store.ts";
+
+/**
+ * Options shared by the commands that run the pipeline
+ */
+export interface RunOptions {
+  /** Source IDs to fetch (all enabled sources when unset) */
+  sourceIds?: string[];
+  /** Category ID to keep */
+  categoryId?: string;
+  /** Day to run as (YYYY-MM-DD) */
+  asOf?: string;
+  /** Directory to replay upstream fixtures from */
+  fixturesDir?: string;
+  /** Save snapshots, run reports and alert state (always false for preview) */
+  kvWrite: boolean;
+}
+
+/**
+ * Parsed command line
+ */
+export type CliCommand =
+  | { command: "serve" }
+  | { command: "preview"; format: OutputFormat; run: RunOptions }
+  | { command: "post"; run: RunOptions }
+  | { command: "backfill"; run: RunOptions }
+  | { command: "sources" }
+  | { command: "export"; path: string; range: DateRange }
+  | { command: "import"; path: string }
+  | { command: "test-message" }
+  | { command: "set-webhook" }
+  | { command: "delete-webhook" }
+  | { command: "help"; error?: string };
+
+export const CLI_USAGE =
+  "Usage: deno task <command> [options]\n" +
+  "  preview [--format html|md|text|json]   print the daily post\n" +
+  "  post                                   post to the channel now\n" +
+  "  backfill                               record the day's snapshots without posting\n" +
+  "  sources                                list yield sources\n" +
+  "  export <dir|file.json> [--from YYYY-MM-DD] [--to YYYY-MM-DD]\n" +
+  "  import <dir|file.json>\n" +
+  "Run options (preview, post, backfill):\n" +
+  "  --only merkl,euler  --category STABLE  --as-of 2026-10-01  --fixtures <dir>\n" +
+  "  (--only and --category: preview, post; --as-of: preview, backfill)\n" +
+  "  --no-kv-write (post, backfill; preview never writes KV)";
+
+/** Flags that take a value (`--name value` or `--name=value`) */
+const VALUE_FLAGS = ["format", "only", "category", "as-of", "fixtures", "from", "to", "export", "import"];
+
+/** Flags without a value */
+const BOOLEAN_FLAGS = ["no-kv-write", "post-now", "test", "set-webhook", "delete-webhook", "help"];
+
+/** Flags each subcommand accepts */
+const COMMAND_FLAGS: Record<string, string[]> = {
+  preview: ["format", "only", "category", "as-of", "fixtures"],
+  post: ["only", "category", "fixtures", "no-kv-write"],
+  // A backfill records snapshots, so it always covers every source: a subset would
+  // make the pools left out look delisted (and new again) on the next post
+  backfill: ["as-of", "fixtures", "no-kv-write"],
+  sources: [],
+  export: ["from", "to"],
+  import: [],
+};
+
+/** Older flag-style modes, checked in this order when no subcommand is given */
+const LEGACY_FLAGS: Array<[flag: string, command: string]> = [
+  ["format", "preview"],
+  ["export", "export"],
+  ["import", "import"],
+  ["post-now", "post"],
+  ["test", "test-message"],
+  ["set-webhook", "set-webhook"],
+  ["delete-webhook", "delete-webhook"],
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Split arguments into positionals and flags
+ * Throws on unknown flags and missing values.
+ */
+function tokenize(args: string[]): { positionals: string[]; flags: Map<string, string> } {
+  const positionals: string[] = [];
+  const flags = new Map<string, string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    if (BOOLEAN_FLAGS.includes(name)) {
+      if (inline !== undefined) {
+        throw new Error(`--${name} doesn't take a value`);
+      }
+      flags.set(name, "");
+    } else if (VALUE_FLAGS.includes(name)) {
+      const value = inline ?? (args[i + 1]?.startsWith("--") ? undefined : args[++i]);
+      if (!value) {
+        throw new Error(`--${name} needs a value`);
+      }
+      flags.set(name, value);
+    } else {
+      throw new Error(`Unknown option --${name}`);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+/**
+ * Parse --only into source IDs
+ */
+function parseSourceIds(value: string): string[] {
+  const known = YIELD_SOURCES.map(source => source.id);
+  const ids = value.split(",").map(id => id.trim().toLowerCase()).filter(id => id.length > 0);
+  for (const id of ids) {
+    if (!known.includes(id)) {
+      throw new Error(`Unknown source "${id}" (expected one of: ${known.join(", ")})`);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Parse --as-of: a real date, not in the future
+ * Backfills must also fall inside the history window, or the snapshots would be ignored.
+ */
+function parseAsOf(value: string, command: string): string {
+  if (!DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    throw new Error(`Invalid --as-of "${value}" (expected YYYY-MM-DD)`);
+  }
+  const today = new Date().toISOString().slice(0, 10);
+  if (value > today) {
+    throw new Error(`--as-of ${value} is in the future`);
+  }
+  if (command === "backfill") {
+    const oldest = new Date();
+    oldest.setUTCDate(oldest.getUTCDate() - (MAX_HISTORY_DAYS - 1));
+    if (value < oldest.toISOString().slice(0, 10)) {
+      throw new Error(`--as-of ${value} is older than the ${MAX_HISTORY_DAYS}-day history window`);
+    }
+  }
+  return value;
+}
+
+/**
+ * Parse the run options of preview, post and backfill
+ */
+function parseRunOptions(flags: Map<string, string>, command: string): RunOptions {
+  // Preview is read-only: it must never record a run, least of all under an --as-of date
+  const run: RunOptions = { kvWrite: command !== "preview" && !flags.has("no-kv-write") };
+
+  const only = flags.get("only");
+  if (only !== undefined) {
+    run.sourceIds = parseSourceIds(only);
+  }
+
+  const categoryName = flags.get("category");
+  if (categoryName !== undefined) {
+    const category = findCategoryByAlias(categoryName);
+    if (!category) {
+      const ids = getCategories().map(c => c.id).join(", ");
+      throw new Error(`Unknown category "${categoryName}" (expected one of: ${ids})`);
+    }
+    run.categoryId = category.id;
+  }
+
+  const asOf = flags.get("as-of");
+  if (asOf !== undefined) {
+    run.asOf = parseAsOf(asOf, command);
+  }
+
+  run.fixturesDir = flags.get("fixtures");
+  return run;
+}
+
+/**
+ * Parse command-line arguments
+ * Problems come back as a help command with an error message.
+ */
+export function parseCliArgs(args: string[]): CliCommand {
+  try {
+    const { positionals, flags } = tokenize(args);
+    if (flags.has("help") || positionals[0] === "help") {
+      return { command: "help" };
+    }
+
+    // A subcommand, or one of the older flag-style modes
+    let command = positionals.shift();
+    let legacyValue: string | undefined;
+    if (command === undefined) {
+      const legacy = LEGACY_FLAGS.find(([flag]) => flags.has(flag));
+      if (!legacy) {
+        if (flags.size > 0) {
+          throw new Error(`--${[...flags.keys()][0]} needs a command (preview, post or backfill)`);
+        }
+        return { command: "serve" };
+      }
+      command = legacy[1];
+      legacyValue = flags.get(legacy[0]);
+      flags.delete(legacy[0]);
+      if (command === "preview") {
+        flags.set("format", legacyValue!);
+      }
+    }
+
+    if (command === "test-message" || command === "set-webhook" || command === "delete-webhook") {
+      return { command };
+    }
+
+    const allowed = COMMAND_FLAGS[command];
+    if (!allowed) {
+      throw new Error(`Unknown command "${command}"`);
+    }
+    for (const flag of flags.keys()) {
+      if (!allowed.includes(flag)) {
+        throw new Error(`--${flag} is not supported by ${command}`);
+      }
+    }
+
+    switch (command) {
+      case "preview": {
+        const format = flags.get("format") ?? "text";
+        if (!isOutputFormat(format)) {
+          throw new Error(`Unsupported --format "${format}" (expected one of: ${OUTPUT_FORMATS.join(", ")})`);
+        }
+        return { command, format, run: parseRunOptions(flags, command) };
+      }
+      case "post":
+      case "backfill":
+        return { command, run: parseRunOptions(flags, command) };
+      case "sources":
+        return { command };
+      case "export":
+      case "import": {
+        const path = legacyValue ?? positionals.shift();
+        if (!path) {
+          throw new Error(`${command} needs a path (a directory or a .json file)`);
+        }
+        if (command === "import") {
+          return { command, path };
+        }
+        return { command, path, range: parseDateRange(flags.get("from"), flags.get("to")) };
+      }
+    }
+    throw new Error(`Unknown command "${command}"`);
+  } catch (error) {
+    return { command: "help", error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,67 @@
+import { assertEquals, assertStringIncludes } from "std/assert/mod.ts";
+import { parseCliArgs } from "./cli.ts";
+
+/**
+ * Error message of a command line that fails to parse
+ */
+function parseError(args: string[]): string {
+  const command = parseCliArgs(args);
+  return command.command === "help" ? command.error ?? "" : "";
+}
+
+Deno.test("parseCliArgs reads subcommands and run options", () => {
+  assertEquals(parseCliArgs([]), { command: "serve" });
+  assertEquals(parseCliArgs(["sources"]), { command: "sources" });
+  assertEquals(
+    parseCliArgs(["preview", "--format=json", "--only", "Merkl, euler", "--category", "stables"]),
+    {
+      command: "preview",
+      format: "json",
+      run: { kvWrite: false, sourceIds: ["merkl", "euler"], categoryId: "STABLE", fixturesDir: undefined },
+    },
+  );
+  assertEquals(parseCliArgs(["post", "--fixtures", "./fixtures"]), {
+    command: "post",
+    run: { kvWrite: true, fixturesDir: "./fixtures" },
+  });
+  assertEquals(parseCliArgs(["backfill", "--no-kv-write"]), {
+    command: "backfill",
+    run: { kvWrite: false, fixturesDir: undefined },
+  });
+  assertEquals(parseCliArgs(["backfill", "--as-of", new Date().toISOString().slice(0, 10)]).command, "backfill");
+  assertEquals(parseCliArgs(["export", "./backup.json", "--from", "2026-01-01", "--to", "2026-01-31"]), {
+    command: "export",
+    path: "./backup.json",
+    range: { from: "2026-01-01", to: "2026-01-31" },
+  });
+});
+
+Deno.test("parseCliArgs keeps the older flags working", () => {
+  assertEquals(parseCliArgs(["--post-now"]), { command: "post", run: { kvWrite: true, fixturesDir: undefined } });
+  assertEquals(parseCliArgs(["--format", "md"]), {
+    command: "preview",
+    format: "md",
+    run: { kvWrite: false, fixturesDir: undefined },
+  });
+  assertEquals(parseCliArgs(["--import=./backup"]), { command: "import", path: "./backup" });
+  assertEquals(parseCliArgs(["--test"]), { command: "test-message" });
+  assertEquals(parseCliArgs(["--set-webhook"]), { command: "set-webhook" });
+});
+
+Deno.test("parseCliArgs rejects bad input with a message", () => {
+  assertStringIncludes(parseError(["preview", "--only", "merkl,nope"]), 'Unknown source "nope"');
+  assertStringIncludes(parseError(["preview", "--category", "DOGE"]), 'Unknown category "DOGE"');
+  assertStringIncludes(parseError(["preview", "--as-of", "2026-13-01"]), "expected YYYY-MM-DD");
+  assertStringIncludes(parseError(["preview", "--as-of", "2999-01-01"]), "in the future");
+  assertStringIncludes(parseError(["backfill", "--as-of", "2020-01-01"]), "history window");
+  assertStringIncludes(parseError(["post", "--as-of", "2026-10-01"]), "--as-of is not supported by post");
+  assertStringIncludes(parseError(["backfill", "--only", "merkl"]), "--only is not supported by backfill");
+  assertStringIncludes(parseError(["preview", "--no-kv-write"]), "--no-kv-write is not supported by preview");
+  assertStringIncludes(parseError(["preview", "--format", "pdf"]), 'Unsupported --format "pdf"');
+  assertStringIncludes(parseError(["preview", "--fixtures"]), "--fixtures needs a value");
+  assertStringIncludes(parseError(["export"]), "export needs a path");
+  assertStringIncludes(parseError(["sources", "--verbose"]), "Unknown option --verbose");
+  assertStringIncludes(parseError(["publish"]), 'Unknown command "publish"');
+  assertStringIncludes(parseError(["--no-kv-write"]), "needs a command");
+  assertEquals(parseCliArgs(["--help"]), { command: "help" });
+});
@@ -0,0 +1,105 @@
+/**
+ * /alert Command
+ * Manage personal DM alerts:
+ *   /alert add USDT apy>8         - notify when a USDT pool's APY goes above 8%
+ *   /alert add EVAA tvl_drop>20%  - notify when an EVAA pool loses 20%+ TVL in a day
+ *   /alert list                   - show your alerts
+ *   /alert remove <id>            - delete an alert
+ */
+
+import {
+  addAlert,
+  type AlertMetric,
+  type AlertOperator,
+  describeAlertRule,
+  listAlerts,
+  removeAlert,
+} from "../services/alerts.ts";
+
+/**
+ * Parsed /alert command
+ */
+export type AlertCommand =
+  | { action: "add"; target: string; metric: AlertMetric; operator: AlertOperator; threshold: number }
+  | { action: "list" }
+  | { action: "remove"; id: string }
+  | { action: "help"; error?: string };
+
+export const ALERT_USAGE =
+  "Usage:\n" +
+  "/alert add USDT apy>8 - APY of a USDT pool above 8%\n" +
+  "/alert add EVAA tvl_drop>20% - an EVAA pool lost 20%+ TVL since the last update\n" +
+  "/alert list - show your alerts\n" +
+  "/alert remove <id> - delete an alert";
+
+/**
+ * Parse /alert arguments
+ */
+export function parseAlertCommand(args: string): AlertCommand {
+  const [action, ...rest] = args.trim().split(/\s+/).filter(w => w.length > 0);
+
+  switch (action?.toLowerCase()) {
+    case "add": {
+      if (rest.length !== 2) {
+        return { action: "help", error: "Expected a target and a condition, e.g. /alert add USDT apy>8" };
+      }
+      const [target, condition] = rest;
+      const match = condition.toLowerCase().match(/^(apy|tvl_drop)([<>])(\d+(?:\.\d+)?)%?$/);
+      if (!match) {
+        return { action: "help", error: `Unknown condition "${condition}"` };
+      }
+      const metric = match[1] as AlertMetric;
+      const operator = match[2] as AlertOperator;
+      if (metric === "tvl_drop" && operator !== ">") {
+        return { action: "help", error: "tvl_drop only supports >, e.g. tvl_drop>20%" };
+      }
+      return { action: "add", target, metric, operator, threshold: parseFloat(match[3]) };
+    }
+    case "list":
+      return { action: "list" };
+    case "remove":
+    case "delete":
+      return rest.length === 1
+        ? { action: "remove", id: rest[0] }
+        : { action: "help", error: "Expected an alert ID, e.g. /alert remove a1b2c3" };
+    default:
+      return { action: "help" };
+  }
+}
+
+/**
+ * Execute an /alert command for a chat and return the reply text
+ */
+export async function handleAlertCommand(chatId: number, args: string): Promise<string> {
+  const command = parseAlertCommand(args);
+
+  switch (command.action) {
+    case "add": {
+      try {
+        const rule = await addAlert({
+          chatId,
+          target: command.target,
+          metric: command.metric,
+          operator: command.operator,
+          threshold: command.threshold,
+        });
+        return `✅ Alert ${rule.id} created: ${describeAlertRule(rule)}\nYou'll get a message after the next update if it fires.`;
+      } catch (error) {
+        return `⚠️ ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    case "list": {
+      const rules = await listAlerts(chatId);
+      if (rules.length === 0) {
+        return "You have no alerts yet.\n\n" + ALERT_USAGE;
+      }
+      return "🔔 Your alerts:\n" + rules.map(rule => `${rule.id} - ${describeAlertRule(rule)}`).join("\n");
+    }
+    case "remove": {
+      const removed = await removeAlert(chatId, command.id);
+      return removed ? `🗑 Alert ${command.id} removed` : `No alert with ID ${command.id}`;
+    }
+    case "help":
+      return command.error ? `⚠️ ${command.error}\n\n${ALERT_USAGE}` : ALERT_USAGE;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Approval Buttons (admin chat)
+ * The draft preview ends with a prompt carrying three inline buttons:
+ *   Publish    - post the draft to the channel now
+ *   Skip       - drop today's post
+ *   Regenerate - fetch everything again and send a fresh preview
+ * Button callback data is "approval:<action>:<draftId>".
+ */
+
+import { InlineKeyboard } from "grammy";
+import type { Approver, DraftStatus, PostDraft } from "../services/approvals.ts";
+
+export type ApprovalAction = "publish" | "skip" | "regenerate";
+
+/**
+ * Parsed button press
+ */
+export interface ApprovalCallback {
+  action: ApprovalAction;
+  draftId: string;
+}
+
+/** Draft status each action moves to */
+export const APPROVAL_DECISIONS: Record<ApprovalAction, Exclude<DraftStatus, "pending">> = {
+  publish: "published",
+  skip: "skipped",
+  regenerate: "regenerated",
+};
+
+const CALLBACK_PATTERN = /^approval:(publish|skip|regenerate):([\w-]+)$/;
+
+/**
+ * Parse a button's callback data (null for anything that isn't an approval button)
+ */
+export function parseApprovalCallback(data: string): ApprovalCallback | null {
+  const match = data.match(CALLBACK_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return { action: match[1] as ApprovalAction, draftId: match[2] };
+}
+
+/**
+ * Inline keyboard for a pending draft
+ */
+export function buildApprovalKeyboard(draftId: string): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("✅ Publish", `approval:publish:${draftId}`)
+    .text("⏭ Skip", `approval:skip:${draftId}`)
+    .text("🔄 Regenerate", `approval:regenerate:${draftId}`);
+}
+
+/**
+ * Format a Telegram user for the approval record (e.g., "@alice" or "Alice Smith")
+ */
+export function formatApproverName(user: { username?: string; first_name: string; last_name?: string }): string {
+  return user.username ? `@${user.username}` : [user.first_name, user.last_name].filter(Boolean).join(" ");
+}
+
+/**
+ * Prompt shown under the preview while the draft is pending
+ */
+export function formatApprovalPrompt(draft: PostDraft): string {
+  const parts = draft.messages.length > 1 ? ` (${draft.messages.length} messages)` : "";
+  const timeout = draft.publishAt
+    ? `Publishes automatically at ${formatTime(draft.publishAt)} UTC unless skipped.`
+    : "Waiting for a decision - nothing is published automatically.";
+  return `📝 Daily post preview${parts} above.\n${timeout}`;
+}
+
+/**
+ * Prompt text once the draft is decided (the buttons are removed)
+ */
+export function formatApprovalResult(draft: PostDraft): string {
+  const by = formatDecidedBy(draft.decidedBy);
+  const at = draft.decidedAt ? ` at ${formatTime(draft.decidedAt)} UTC` : "";
+  switch (draft.status) {
+    case "published":
+      return `✅ Approved ${by}${at} - publishing to the channel`;
+    case "skipped":
+      return `⏭ Skipped ${by}${at} - nothing posted today`;
+    case "regenerated":
+      return `🔄 Regenerating (requested ${by}${at}) - a new preview follows`;
+    default:
+      return formatApprovalPrompt(draft);
+  }
+}
+
+function formatDecidedBy(approver: Approver | null | undefined): string {
+  return approver ? `by ${approver.name}` : "automatically";
+}
+
+/**
+ * "2026-10-19T10:05:00.000Z" -> "10:05"
+ */
+function formatTime(iso: string): string {
+  return iso.slice(11, 16);
+}
@@ -0,0 +1,61 @@
+/**
+ * /export Command (admin only)
+ * Export stored history as files:
+ *   /export                          - last 30 days as CSV files
+ *   /export json                     - last 30 days as one JSON file
+ *   /export csv 2026-01-01 2026-01-15 - a date range (inclusive)
+ * The same files can be imported with `deno task import`.
+ */
+
+import {
+  type DateRange,
+  type ExportFormat,
+  exportHistory,
+  formatHistoryFiles,
+  parseDateRange,
+} from "../services/history_export.ts";
+
+/**
+ * Parsed /export command
+ */
+export type ExportCommand =
+  | { action: "export"; format: ExportFormat; range: DateRange }
+  | { action: "help"; error: string };
+
+export const EXPORT_USAGE =
+  "Usage:\n" +
+  "/export - last 30 days as CSV\n" +
+  "/export json - last 30 days as JSON\n" +
+  "/export csv 2026-01-01 2026-01-15 - a date range";
+
+/**
+ * Parse /export arguments: optional format, then optional from/to dates
+ */
+export function parseExportCommand(args: string): ExportCommand {
+  const words = args.trim().split(/\s+/).filter(w => w.length > 0);
+  let format: ExportFormat = "csv";
+  if (words[0] === "csv" || words[0] === "json") {
+    format = words.shift() as ExportFormat;
+  }
+  if (words.length > 2) {
+    return { action: "help", error: "Expected at most two dates" };
+  }
+
+  try {
+    return { action: "export", format, range: parseDateRange(words[0], words[1]) };
+  } catch (error) {
+    return { action: "help", error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Build the export files for a command (file name -> content)
+ */
+export async function buildExportFiles(command: Extract<ExportCommand, { action: "export" }>): Promise<Record<string, string>> {
+  const data = await exportHistory(command.range);
+  console.log(
+    `✓ Exported ${data.poolSnapshots.length} pool snapshots, ${data.tvlSnapshots.length} TVL snapshots, ` +
+      `${data.runReports.length} run reports (${command.range.from} → ${command.range.to})`,
+  );
+  return formatHistoryFiles(data, command.format);
+}
@@ -0,0 +1,182 @@
+/**
+ * /yields Command
+ * Interactive yields snapshot with optional filters:
+ *   /yields              - all categories (top pools per protocol)
+ *   /yields stable       - one asset category
+ *   /yields ton min=5    - category with minimum APY
+ *   /yields evaa         - one protocol across all categories
+ *
+ * Replies come from the latest stored run (the daily post's), so a command never
+ * waits on every upstream; sources are only fetched live before the first run is stored.
+ */
+
+import type { CategoryDefinition, GroupedYields, YieldOpportunity } from "../types/yields.ts";
+import { fetchTonYields, groupByProtocol } from "../services/aggregator.ts";
+import {
+  calculateAll7DayAverages,
+  calculateAllTvlChanges,
+  getAllYesterdayApys,
+  getNewPools,
+  loadPoolHistories,
+} from "../services/apy_history.ts";
+import { config } from "../config.ts";
+import { findCategoryByAlias, getCategories, getCategoryTitle, groupByCategory } from "../services/categories.ts";
+import { loadLatestRun } from "../services/latest_run.ts";
+import { formatProtocolGroup, type PoolInsights } from "../formatters/message.ts";
+import { escapeHtml, renderGroupHtml } from "../formatters/document.ts";
+
+/**
+ * Parsed /yields filters
+ */
+export interface YieldsQuery {
+  /** Category ID (see config.categories) */
+  category?: string;
+  protocol?: string;
+  minApy?: number;
+}
+
+/** Pools shown per protocol when no protocol filter is given */
+const MAX_YIELDS_PER_PROTOCOL = 3;
+
+/** Stay safely below Telegram's 4096-character message limit */
+const MAX_REPLY_LENGTH = 3800;
+
+/**
+ * Parse /yields arguments
+ * Unknown words are treated as a protocol name filter
+ */
+export function parseYieldsQuery(args: string): YieldsQuery {
+  const query: YieldsQuery = {};
+  const protocolWords: string[] = [];
+
+  for (const word of args.trim().split(/\s+/).filter(w => w.length > 0)) {
+    const lower = word.toLowerCase();
+    const minMatch = lower.match(/^min(?:apy)?[=:](\d+(?:\.\d+)?)%?$/);
+    const category = findCategoryByAlias(lower);
+
+    if (minMatch) {
+      query.minApy = parseFloat(minMatch[1]);
+    } else if (category) {
+      query.category = category.id;
+    } else {
+      protocolWords.push(word);
+    }
+  }
+
+  if (protocolWords.length > 0) {
+    query.protocol = protocolWords.join(" ");
+  }
+
+  return query;
+}
+
+/**
+ * Normalize protocol names for matching ("Ston.fi" -> "stonfi")
+ */
+function normalizeProtocol(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Apply protocol and minimum APY filters to a list of yields
+ */
+function filterYields(yields: YieldOpportunity[], query: YieldsQuery): YieldOpportunity[] {
+  const protocol = query.protocol ? normalizeProtocol(query.protocol) : null;
+  return yields.filter(y =>
+    (protocol === null || normalizeProtocol(y.source).includes(protocol)) &&
+    (query.minApy === undefined || y.apyTotal >= query.minApy)
+  );
+}
+
+/**
+ * Describe the active filters (e.g., "STABLE · evaa · min 5%")
+ * The protocol filter is user input, so it's HTML-escaped
+ */
+function describeQuery(query: YieldsQuery): string {
+  const parts: string[] = [];
+  if (query.category) parts.push(query.category.replace("_", "-"));
+  if (query.protocol) {
+    parts.push(escapeHtml(query.protocol));
+  }
+  if (query.minApy !== undefined) parts.push(`min ${query.minApy}%`);
+  return parts.join(" · ");
+}
+
+/**
+ * Yields of the latest stored run (fetched live only when none is stored yet)
+ */
+async function loadYields(): Promise<GroupedYields> {
+  const run = await loadLatestRun();
+  if (run) {
+    return groupByCategory(run.pools);
+  }
+  return (await fetchTonYields()).yields;
+}
+
+/**
+ * Build the HTML reply for a /yields query
+ */
+export async function buildYieldsReply(query: YieldsQuery): Promise<string> {
+  const yields = await loadYields();
+
+  const categories = getCategories().filter(c => !query.category || c.id === query.category);
+  const filtered = new Map<CategoryDefinition, YieldOpportunity[]>();
+  for (const category of categories) {
+    const matches = filterYields(yields[category.id], query);
+    if (matches.length > 0) {
+      filtered.set(category, matches);
+    }
+  }
+
+  const description = describeQuery(query);
+  const header = description
+    ? `<b>📊 TON Yields</b> <i>(${description})</i>`
+    : "<b>📊 TON Yields</b>";
+
+  if (filtered.size === 0) {
+    return `${header}\n\nNo yields match these filters.`;
+  }
+
+  // Read-only: averages and listings come from history saved by the daily post,
+  // loaded once for all of them
+  const pools = [...filtered.values()].flat();
+  const histories = await loadPoolHistories(pools);
+  const insights: PoolInsights = {
+    averages: await calculateAll7DayAverages(pools, histories),
+    newPools: await getNewPools(pools, config.newPoolDays, histories),
+    yesterday: await getAllYesterdayApys(pools, histories),
+    tvlChanges: await calculateAllTvlChanges(pools, histories),
+  };
+
+  // Show every pool when looking at a single protocol, otherwise keep it compact
+  const maxYields = query.protocol ? undefined : MAX_YIELDS_PER_PROTOCOL;
+
+  const lines: string[] = [header];
+  let length = header.length;
+  let truncated = false;
+
+  // Add protocol blocks until the reply would get too long
+  for (const [category, categoryYields] of filtered) {
+    if (truncated) break;
+    const title = `\n<b>${escapeHtml(getCategoryTitle(category))}</b>`;
+
+    groupByProtocol(categoryYields).forEach((group, index) => {
+      if (truncated) return;
+      const block = (index === 0 ? `${title}\n` : "\n") + renderGroupHtml(formatProtocolGroup(group, insights, maxYields));
+      if (length + block.length > MAX_REPLY_LENGTH) {
+        truncated = true;
+        return;
+      }
+      lines.push(block);
+      length += block.length + 1;
+    });
+  }
+
+  if (truncated) {
+    lines.push("\n<i>…more results hidden, narrow the filters (e.g. /yields stable min=5)</i>");
+  }
+
+  lines.push("\n<i>APY (7d avg) ↑↓ △ vs yesterday | TVL (24h, 7d)</i>");
+
+  return lines.join("\n");
+}
@@ -4,6 +4,7 @@
  */
 
 import { load } from "std/dotenv/mod.ts";
+import type { CategoryDefinition } from "./types/yields.ts";
 
 // Load .env file (if it exists)
 try {
@@ -23,6 +24,19 @@ try {
 const env = {
   TELEGRAM_BOT_TOKEN: Deno.env.get("TELEGRAM_BOT_TOKEN"),
   TELEGRAM_CHANNEL_ID: Deno.env.get("TELEGRAM_CHANNEL_ID"),
+  TELEGRAM_ADMIN_CHAT_ID: Deno.env.get("TELEGRAM_ADMIN_CHAT_ID"),
+  SHOW_SOURCE_WARNINGS: Deno.env.get("SHOW_SOURCE_WARNINGS"),
+  TELEGRAM_WEBHOOK_SECRET: Deno.env.get("TELEGRAM_WEBHOOK_SECRET"),
+  WEBHOOK_URL: Deno.env.get("WEBHOOK_URL"),
+  PORT: Deno.env.get("PORT"),
+  TVL_DROP_WARNING_PERCENT: Deno.env.get("TVL_DROP_WARNING_PERCENT"),
+  HTTP_CACHE_KV: Deno.env.get("HTTP_CACHE_KV"),
+  HTTP_FIXTURES: Deno.env.get("HTTP_FIXTURES"),
+  HTTP_FIXTURES_DIR: Deno.env.get("HTTP_FIXTURES_DIR"),
+  REQUIRE_APPROVAL: Deno.env.get("REQUIRE_APPROVAL"),
+  APPROVAL_TIMEOUT_MINUTES: Deno.env.get("APPROVAL_TIMEOUT_MINUTES"),
+  SANITY_MAX_POOL_DROP_PERCENT: Deno.env.get("SANITY_MAX_POOL_DROP_PERCENT"),
+  SANITY_MAX_APY: Deno.env.get("SANITY_MAX_APY"),
 };
 
 /**
@@ -35,6 +49,21 @@ export function validateConfig(): void {
   if (!env.TELEGRAM_CHANNEL_ID) {
     throw new Error("TELEGRAM_CHANNEL_ID environment variable is required");
   }
+  if (env.REQUIRE_APPROVAL === "true" && !env.TELEGRAM_ADMIN_CHAT_ID) {
+    throw new Error("TELEGRAM_ADMIN_CHAT_ID environment variable is required when REQUIRE_APPROVAL is on");
+  }
+}
+
+/**
+ * Validates the variables needed to receive Telegram updates via webhook
+ */
+export function validateWebhookConfig(): void {
+  if (!env.TELEGRAM_WEBHOOK_SECRET) {
+    throw new Error("TELEGRAM_WEBHOOK_SECRET environment variable is required for webhook mode");
+  }
+  if (!env.WEBHOOK_URL) {
+    throw new Error("WEBHOOK_URL environment variable is required for webhook mode");
+  }
 }
 
 /**
@@ -47,9 +76,49 @@ export const config = {
   /** Telegram channel ID or username */
   telegramChannelId: env.TELEGRAM_CHANNEL_ID ?? "",
   
+  /** Chat that receives operational notices such as unregistered tokens (optional) */
+  telegramAdminChatId: env.TELEGRAM_ADMIN_CHAT_ID ?? "",
+  
+  /** Preview the daily post in the admin chat and publish only once approved (see services/approvals.ts) */
+  requireApproval: env.REQUIRE_APPROVAL === "true",
+  
+  /** Publish a draft nobody approved or skipped after this many minutes (0 = wait for an admin) */
+  approvalTimeoutMinutes: parseFloat(env.APPROVAL_TIMEOUT_MINUTES ?? "60"),
+  
+  /** Secret Telegram sends in X-Telegram-Bot-Api-Secret-Token with every webhook update */
+  telegramWebhookSecret: env.TELEGRAM_WEBHOOK_SECRET ?? "",
+  
+  /** Public base URL of this deployment (e.g. https://ton-yields-bot.deno.dev) */
+  webhookUrl: env.WEBHOOK_URL ?? "",
+  
+  /** Path Telegram posts updates to */
+  webhookPath: "/webhook",
+  
+  /** HTTP port for local runs (Deno Deploy ignores it) */
+  port: parseInt(env.PORT ?? "8000", 10),
+  
   /** DefiLlama API endpoint for yields */
   defiLlamaApiUrl: "https://yields.llama.fi/pools",
   
+  /** How long fetched API responses are reused (dedupes downloads within a run and across /yields calls) */
+  httpCacheTtlMs: 10 * 60 * 1000,
+  
+  /** Also persist small API responses in Deno KV so other isolates can reuse them */
+  httpCacheKv: env.HTTP_CACHE_KV === "true",
+  
+  /**
+   * Upstream fixtures (see services/fixtures.ts): "record" saves every API/RPC
+   * response to httpFixturesDir, "replay" serves them instead of the network,
+   * anything else talks to the live APIs
+   */
+  httpFixtures: env.HTTP_FIXTURES ?? "",
+  
+  /** Directory holding recorded upstream responses */
+  httpFixturesDir: env.HTTP_FIXTURES_DIR ?? "./fixtures",
+  
+  /** How long resolved token USD prices are reused */
+  priceCacheTtlMs: 5 * 60 * 1000,
+  
   /** Chain to filter (TON blockchain) */
   chain: "TON",
   
@@ -58,4 +127,109 @@ export const config = {
   
   /** Daily post time in UTC (9:00 AM) */
   dailyPostHour: 9,
+  
+  /** Append "⚠️ <source> data unavailable today" lines when a source fails */
+  showSourceWarnings: env.SHOW_SOURCE_WARNINGS !== "false",
+  
+  /** Pools first seen within this many days get the 🆕 badge (1 = today only) */
+  newPoolDays: 1,
+  
+  /** Warn when a pool loses more than this share of its TVL in a day (possible rug/exit) */
+  tvlDropWarningPercent: parseFloat(env.TVL_DROP_WARNING_PERCENT ?? "30"),
+  
+  /** Checks a run must pass before it's posted; failing runs are held for the admins (see services/sanity.ts) */
+  sanity: {
+    /** Hold when the pool count falls by more than this % vs the previous run (overall or for one source) */
+    maxPoolDropPercent: parseFloat(env.SANITY_MAX_POOL_DROP_PERCENT ?? "50"),
+    /** Hold when any pool reports a higher total APY (%) */
+    maxApy: parseFloat(env.SANITY_MAX_APY ?? "200"),
+  },
+  
+  /**
+   * Which source wins when several sources report the same pool
+   * (lists of YieldSource ids, highest priority first)
+   */
+  sourcePriority: {
+    /** Default order for pools matched by address or protocol+asset+poolMeta */
+    default: ["swapcoffee", "merkl", "morpho", "euler", "defillama", "yieldfi", "ethena", "midas"],
+    /**
+     * Per-protocol order, keyed by normalized protocol name (lowercase, alphanumeric).
+     * The first listed source that reports the protocol owns ALL of its pools,
+     * since upstreams label the same pools differently.
+     */
+    protocols: {
+      // Swap Coffee has the most complete data for these TON-native protocols
+      "tonstakers": ["swapcoffee", "defillama"],
+      "bemo": ["swapcoffee", "defillama"],
+      "hipo": ["swapcoffee", "defillama"],
+      "kton": ["swapcoffee", "defillama"],
+      "stakee": ["swapcoffee", "defillama"],
+      "torchfinance": ["swapcoffee", "defillama"],
+      "stormtrade": ["swapcoffee", "defillama"],
+      "stonfi": ["swapcoffee", "defillama"],
+      "dedust": ["swapcoffee", "defillama"],
+      "swapcoffee": ["swapcoffee", "defillama"],
+      "tonco": ["swapcoffee", "defillama"],
+      "bidask": ["swapcoffee", "defillama"],
+      "daolama": ["swapcoffee", "defillama"],
+      // Swap Coffee has incomplete EVAA coverage (missing USDE and other pools),
+      // DefiLlama has all EVAA pools
+      "evaa": ["defillama", "swapcoffee"],
+    } as Record<string, readonly string[]>,
+  },
+  
+  /**
+   * Sections of the daily post, in display order
+   * A pool goes to the first category whose rules it matches; pools matching none are left out.
+   * Example - a section for everything on TAC (put it first so it takes TAC pools):
+   *   { id: "TAC", emoji: "🔗", title: "TAC YIELDS", match: { chains: ["TAC"] }, aliases: ["tac"] }
+   */
+  categories: [
+    {
+      id: "TON",
+      emoji: "💎",
+      title: "TON AND RELATED ASSETS",
+      match: { assetTypes: ["TON"] },
+      aliases: ["ton"],
+    },
+    {
+      id: "STABLE",
+      emoji: "💵",
+      title: "STABLECOINS AND RELATED ASSETS",
+      match: { assetTypes: ["STABLE"] },
+      // EVAA lists many near-identical stable pools
+      protocolCaps: { "EVAA": 3 },
+      aliases: ["stable", "stables", "stablecoins", "usd"],
+    },
+    {
+      id: "TON_USDT",
+      emoji: "🔄",
+      title: "YIELDS FOR TON-USDT POOLS",
+      match: { tonUsdtPool: true },
+      // Impermanent loss risk
+      excludeFromTop: true,
+      aliases: ["lp", "ton-usdt", "tonusdt"],
+    },
+    {
+      id: "BTC",
+      emoji: "₿",
+      title: "BTC AND RELATED ASSETS",
+      match: { assetTypes: ["BTC"] },
+      aliases: ["btc", "bitcoin"],
+    },
+    {
+      id: "ETH",
+      emoji: "⟠",
+      title: "ETH AND RELATED ASSETS",
+      match: { assetTypes: ["ETH"] },
+      aliases: ["eth", "ethereum"],
+    },
+    {
+      id: "GOLD",
+      emoji: "🥇",
+      title: "GOLD (XAUT)",
+      match: { assetTypes: ["GOLD"] },
+      aliases: ["gold", "xaut"],
+    },
+  ] as CategoryDefinition[],
 } as const;
@@ -0,0 +1,302 @@
+/**
+ * Message Document Model
+ * Formatters describe a post as sections, groups, lines and links; renderers
+ * turn that into Telegram HTML, Telegram MarkdownV2 or plain text. Plain strings
+ * in the model are always treated as untrusted text (pool, vault and protocol
+ * names come straight from upstream APIs), so escaping happens in exactly one
+ * place: the renderer.
+ */
+
+/**
+ * Inline content: a plain string is text, spans add formatting
+ */
+export type Inline = string | Span;
+
+/**
+ * Formatted inline content
+ */
+export type Span =
+  | { kind: "bold"; content: Inline[] }
+  | { kind: "italic"; content: Inline[] }
+  | { kind: "link"; url: string; content: Inline[] };
+
+/**
+ * One line of text
+ */
+export type Line = Inline[];
+
+/**
+ * Lines under an optional bold header (e.g., a protocol and its pools)
+ */
+export interface Group {
+  title?: Line;
+  lines: Line[];
+}
+
+/**
+ * How a section's body is shown
+ * - "plain": as normal lines
+ * - "quote": in a blockquote
+ * - "expandable": in a collapsed blockquote the reader can expand
+ */
+export type SectionStyle = "plain" | "quote" | "expandable";
+
+/**
+ * A block of the post, separated from the next one by a blank line
+ * Groups are separated from each other by a blank line too.
+ */
+export interface Section {
+  /** Start with a horizontal separator line */
+  separator?: boolean;
+  /** Bold title, always visible (outside the blockquote) */
+  title?: Line;
+  style: SectionStyle;
+  groups: Group[];
+}
+
+/**
+ * A complete post
+ */
+export interface MessageDocument {
+  sections: Section[];
+}
+
+const SEPARATOR = "──────────────────────";
+
+/** URL schemes Telegram accepts in links */
+const ALLOWED_URL = /^(https?|tg):\/\//i;
+
+/**
+ * Bold span
+ */
+export function bold(...content: Inline[]): Span {
+  return { kind: "bold", content };
+}
+
+/**
+ * Italic span
+ */
+export function italic(...content: Inline[]): Span {
+  return { kind: "italic", content };
+}
+
+/**
+ * Link span; renders as plain content when the URL is empty or not http(s)/tg
+ */
+export function link(url: string, ...content: Inline[]): Span {
+  return { kind: "link", url, content };
+}
+
+/**
+ * Section with a single group of lines
+ */
+export function createSection(style: SectionStyle, lines: Line[], options: { separator?: boolean; title?: Line } = {}): Section {
+  return { ...options, style, groups: [{ lines }] };
+}
+
+/**
+ * Escape text for Telegram HTML
+ * e.g., "A&B <vault>" -> "A&amp;B &lt;vault&gt;"
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Escape a URL for an HTML attribute value
+ */
+function escapeAttribute(value: string): string {
+  return escapeHtml(value).replace(/"/g, "&quot;");
+}
+
+/**
+ * Check whether a link URL is safe to render
+ */
+export function isLinkableUrl(url: string): boolean {
+  return ALLOWED_URL.test(url.trim());
+}
+
+/**
+ * Render inline content as Telegram HTML
+ */
+export function renderInlineHtml(content: Inline[]): string {
+  return content.map((node) => {
+    if (typeof node === "string") {
+      return escapeHtml(node);
+    }
+    const inner = renderInlineHtml(node.content);
+    switch (node.kind) {
+      case "bold":
+        return `<b>${inner}</b>`;
+      case "italic":
+        return `<i>${inner}</i>`;
+      case "link":
+        return isLinkableUrl(node.url) ? `<a href="${escapeAttribute(node.url.trim())}">${inner}</a>` : inner;
+    }
+  }).join("");
+}
+
+/**
+ * Render a group as Telegram HTML lines
+ */
+export function renderGroupHtml(group: Group): string {
+  const lines = group.lines.map(renderInlineHtml);
+  if (group.title) {
+    lines.unshift(`<b>${renderInlineHtml(group.title)}</b>`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Render a section as Telegram HTML
+ */
+export function renderSectionHtml(section: Section): string {
+  const lines: string[] = [];
+  if (section.separator) {
+    lines.push(SEPARATOR);
+  }
+  if (section.title) {
+    lines.push(`<b>${renderInlineHtml(section.title)}</b>`);
+  }
+
+  const body = section.groups.map(renderGroupHtml).join("\n\n");
+  if (body) {
+    switch (section.style) {
+      case "plain":
+        lines.push(body);
+        break;
+      case "quote":
+        lines.push(`<blockquote>${body}</blockquote>`);
+        break;
+      case "expandable":
+        lines.push(`<blockquote expandable>${body}</blockquote>`);
+        break;
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a document as Telegram HTML, one string per section
+ * (join with a blank line, or pass to splitMessage)
+ */
+export function renderDocumentHtml(document: MessageDocument): string[] {
+  return document.sections.map(renderSectionHtml);
+}
+
+/**
+ * Escape text for Telegram MarkdownV2
+ * e.g., "USD0++ (v2)" -> "USD0\+\+ \(v2\)"
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+}
+
+/**
+ * Render inline content as Telegram MarkdownV2
+ */
+export function renderInlineMarkdown(content: Inline[]): string {
+  return content.map((node) => {
+    if (typeof node === "string") {
+      return escapeMarkdown(node);
+    }
+    const inner = renderInlineMarkdown(node.content);
+    switch (node.kind) {
+      case "bold":
+        return `*${inner}*`;
+      case "italic":
+        return `_${inner}_`;
+      case "link":
+        // Inside the (...) part only ")" and "\" need escaping
+        return isLinkableUrl(node.url) ? `[${inner}](${node.url.trim().replace(/[)\\]/g, "\\$&")})` : inner;
+    }
+  }).join("");
+}
+
+/**
+ * Render a group as Telegram MarkdownV2 lines
+ */
+export function renderGroupMarkdown(group: Group): string {
+  const lines = group.lines.map(renderInlineMarkdown);
+  if (group.title) {
+    lines.unshift(`*${renderInlineMarkdown(group.title)}*`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Render a section as Telegram MarkdownV2
+ * Quoted lines start with ">"; an expandable quote starts with "**>" and ends with "||".
+ */
+export function renderSectionMarkdown(section: Section): string {
+  const lines: string[] = [];
+  if (section.separator) {
+    lines.push(SEPARATOR);
+  }
+  if (section.title) {
+    lines.push(`*${renderInlineMarkdown(section.title)}*`);
+  }
+
+  const body = section.groups.map(renderGroupMarkdown).join("\n\n");
+  if (body) {
+    if (section.style === "plain") {
+      lines.push(body);
+    } else {
+      const quoted = body.split("\n").map(line => `>${line}`);
+      if (section.style === "expandable") {
+        quoted[0] = `**${quoted[0]}`;
+        quoted[quoted.length - 1] += "||";
+      }
+      lines.push(...quoted);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a document as Telegram MarkdownV2, one string per section
+ */
+export function renderDocumentMarkdown(document: MessageDocument): string[] {
+  return document.sections.map(renderSectionMarkdown);
+}
+
+/**
+ * Render inline content as plain text (formatting and link targets dropped)
+ */
+export function renderInlineText(content: Inline[]): string {
+  return content.map(node => typeof node === "string" ? node : renderInlineText(node.content)).join("");
+}
+
+/**
+ * Render a section as plain text (quotes shown as normal lines)
+ */
+export function renderSectionText(section: Section): string {
+  const lines: string[] = [];
+  if (section.separator) {
+    lines.push(SEPARATOR);
+  }
+  if (section.title) {
+    lines.push(renderInlineText(section.title));
+  }
+  const groups = section.groups.map(group => {
+    const groupLines = group.lines.map(renderInlineText);
+    if (group.title) {
+      groupLines.unshift(renderInlineText(group.title));
+    }
+    return groupLines.join("\n");
+  });
+  const body = groups.join("\n\n");
+  if (body) {
+    lines.push(body);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Render a document as plain text, one string per section
+ */
+export function renderDocumentText(document: MessageDocument): string[] {
+  return document.sections.map(renderSectionText);
+}
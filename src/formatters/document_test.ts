@@ -0,0 +1,88 @@
+import { assertEquals } from "std/assert/mod.ts";
+import {
+  bold,
+  createSection,
+  escapeHtml,
+  escapeMarkdown,
+  italic,
+  link,
+  renderInlineHtml,
+  renderInlineMarkdown,
+  renderSectionHtml,
+  renderSectionMarkdown,
+  renderSectionText,
+} from "./document.ts";
+
+Deno.test("escapeHtml escapes the characters Telegram HTML reserves", () => {
+  assertEquals(escapeHtml(`A&B <vault> "x"`), `A&amp;B &lt;vault&gt; "x"`);
+});
+
+Deno.test("renderInlineHtml escapes text inside formatting", () => {
+  const html = renderInlineHtml(["1 < 2 ", bold("R&D ", italic("<tag>"))]);
+  assertEquals(html, "1 &lt; 2 <b>R&amp;D <i>&lt;tag&gt;</i></b>");
+});
+
+Deno.test("renderInlineHtml escapes link URLs as attribute values", () => {
+  const html = renderInlineHtml([link(`https://example.com/?a=1&b="2"`, "Pool <1>")]);
+  assertEquals(html, `<a href="https://example.com/?a=1&amp;b=&quot;2&quot;">Pool &lt;1&gt;</a>`);
+});
+
+Deno.test("renderInlineHtml drops links with empty or unsupported URLs", () => {
+  assertEquals(renderInlineHtml([link("", "EVAA")]), "EVAA");
+  assertEquals(renderInlineHtml([link("javascript:alert(1)", "Evil")]), "Evil");
+  assertEquals(renderInlineHtml([link("tg://resolve?domain=x", "Bot")]), `<a href="tg://resolve?domain=x">Bot</a>`);
+});
+
+Deno.test("renderSectionHtml wraps groups in the section's blockquote style", () => {
+  const section = {
+    separator: true,
+    title: ["Stables & co"],
+    style: "expandable" as const,
+    groups: [
+      { title: [link("https://evaa.finance", "EVAA")], lines: [["├ USDT"], ["└ USDC"]] },
+      { lines: [["└ <odd>"]] },
+    ],
+  };
+  assertEquals(
+    renderSectionHtml(section),
+    "──────────────────────\n" +
+      "<b>Stables &amp; co</b>\n" +
+      `<blockquote expandable><b><a href="https://evaa.finance">EVAA</a></b>\n├ USDT\n└ USDC\n\n└ &lt;odd&gt;</blockquote>`,
+  );
+});
+
+Deno.test("renderSectionHtml leaves plain sections unquoted", () => {
+  assertEquals(renderSectionHtml(createSection("plain", [["a"], ["b"]])), "a\nb");
+  assertEquals(renderSectionHtml(createSection("quote", [["a"]])), "<blockquote>a</blockquote>");
+});
+
+Deno.test("escapeMarkdown escapes every MarkdownV2 reserved character", () => {
+  assertEquals(escapeMarkdown("USD0++ (v2) 5.1% a_b"), "USD0\\+\\+ \\(v2\\) 5\\.1% a\\_b");
+  assertEquals(escapeMarkdown("_*[]()~`>#+-=|{}.!\\"), "\\_\\*\\[\\]\\(\\)\\~\\`\\>\\#\\+\\-\\=\\|\\{\\}\\.\\!\\\\");
+});
+
+Deno.test("renderInlineMarkdown formats spans and escapes link URLs", () => {
+  assertEquals(renderInlineMarkdown([bold("TOP 5"), " ", italic("7d")]), "*TOP 5* _7d_");
+  assertEquals(renderInlineMarkdown([link("https://x.io/a_(b)", "EVAA.v2")]), "[EVAA\\.v2](https://x.io/a_(b\\))");
+  assertEquals(renderInlineMarkdown([link("javascript:alert(1)", "Evil")]), "Evil");
+});
+
+Deno.test("renderSectionMarkdown quotes every body line", () => {
+  const section = {
+    title: ["Title"],
+    style: "expandable" as const,
+    groups: [{ title: ["EVAA"], lines: [["├ USDT"]] }, { lines: [["└ USDC"]] }],
+  };
+  assertEquals(renderSectionMarkdown(section), "*Title*\n**>*EVAA*\n>├ USDT\n>\n>└ USDC||");
+  assertEquals(renderSectionMarkdown(createSection("quote", [["a"], ["b"]])), ">a\n>b");
+});
+
+Deno.test("renderSectionText drops formatting, links and quotes", () => {
+  const section = {
+    separator: true,
+    title: [bold("Stables & co")],
+    style: "expandable" as const,
+    groups: [{ title: [link("https://evaa.finance", "EVAA")], lines: [["├ <USDT>"]] }],
+  };
+  assertEquals(renderSectionText(section), "──────────────────────\nStables & co\nEVAA\n├ <USDT>");
+});
@@ -1,10 +1,72 @@
-import type { GroupedYields, OrganizedYields, ProtocolGroup, YieldOpportunity } from "../types/yields.ts";
-import { getTopYields } from "../services/defillama.ts";
+import type { GroupedYields, ProtocolGroup, RunReport, YieldOpportunity } from "../types/yields.ts";
+import { config } from "../config.ts";
+import { getTopYields, groupByProtocol } from "../services/aggregator.ts";
+import { getSourceAttributions } from "../services/sources.ts";
+import { flattenYields, getCategories, getCategoryTitle } from "../services/categories.ts";
+import { splitMessage } from "./split.ts";
+import {
+  bold,
+  createSection,
+  type Group,
+  type Inline,
+  italic,
+  type Line,
+  link,
+  type MessageDocument,
+  renderDocumentHtml,
+  type Section,
+} from "./document.ts";
 import { fetchTonTVL, formatTVL } from "../services/tvl.ts";
 import { saveTvlSnapshot, calculateTvlChange, formatTvlChange } from "../services/tvl_history.ts";
-import { saveAllApySnapshots, calculateAll7DayAverages } from "../services/apy_history.ts";
+import {
+  saveAllApySnapshots,
+  calculateAll7DayAverages,
+  getNewPools,
+  getDelistedPools,
+  getAllYesterdayApys,
+  calculateAllTvlChanges,
+  loadPoolHistories,
+  type PoolLabel,
+  type PoolTvlChange,
+} from "../services/apy_history.ts";
+import { getFailedSources } from "../services/run_reports.ts";
+import { now } from "../services/clock.ts";
+
+const NEW_BADGE = "🆕";
+
+/** Risers and fallers shown in the "Biggest movers" section */
+const MOVERS_PER_DIRECTION = 3;
 
-const SEPARATOR = "──────────────────────";
+/**
+ * Per-pool history data used when formatting yield lines
+ */
+export interface PoolInsights {
+  /** 7-day APY averages */
+  averages: Map<YieldOpportunity, number>;
+  /** Pools first seen within config.newPoolDays */
+  newPools: Set<YieldOpportunity>;
+  /** Yesterday's APY (pools not tracked yesterday are missing) */
+  yesterday: Map<YieldOpportunity, number>;
+  /** TVL change vs yesterday and 7 days ago */
+  tvlChanges: Map<YieldOpportunity, PoolTvlChange>;
+}
+
+/**
+ * Everything besides the yields that the daily post shows
+ */
+export interface ChannelData {
+  insights: PoolInsights;
+  /** Pools tracked yesterday but missing today */
+  delisted: PoolLabel[];
+  /** TON DeFi TVL in USD (0 when unavailable) */
+  tonTvl: number;
+  /** TON DeFi TVL change vs yesterday (null without yesterday's snapshot) */
+  tonTvlChange: { change: number; changePercent: number } | null;
+  /** Run report; failed sources get a warning line */
+  report?: RunReport;
+  /** When the post was generated (header date and footer time) */
+  generatedAt: Date;
+}
 
 /**
  * Rank emojis for TOP 5
@@ -59,6 +121,61 @@ function formatApy(apy: number, avg7d?: number | null): string {
   return `${current}%`;
 }
 
+/**
+ * Check whether a pool lost more than config.tvlDropWarningPercent of its TVL since yesterday
+ */
+function hasTvlDropWarning(yield_: YieldOpportunity, insights: PoolInsights): boolean {
+  const change24h = insights.tvlChanges.get(yield_)?.change24h;
+  return change24h !== null && change24h !== undefined && change24h <= -config.tvlDropWarningPercent;
+}
+
+/**
+ * Format TVL with 24h/7d trend
+ * e.g., "$1.5M (24h -3%, 7d +12%)"; changes that round to 0% are hidden
+ * Pools over the TVL drop threshold get a ⚠️ marker
+ */
+function formatTvlWithTrend(yield_: YieldOpportunity, insights: PoolInsights): string {
+  const tvlText = formatTvl(yield_.tvlUsd);
+  const change = insights.tvlChanges.get(yield_);
+  if (!change) {
+    return tvlText;
+  }
+
+  const parts: string[] = [];
+  for (const [period, value] of [["24h", change.change24h], ["7d", change.change7d]] as const) {
+    if (value !== null && Math.abs(value) >= 0.5) {
+      parts.push(`${period} ${value > 0 ? "+" : "-"}${Math.abs(value).toFixed(0)}%`);
+    }
+  }
+
+  const warning = hasTvlDropWarning(yield_, insights) ? " ⚠️" : "";
+  return parts.length > 0 ? `${tvlText}${warning} (${parts.join(", ")})` : tvlText;
+}
+
+/**
+ * Absolute APY change vs yesterday, or null when there's nothing to compare
+ * Pools with a hardcoded APY (apyNote) are skipped
+ */
+function getApyDelta(yield_: YieldOpportunity, insights: PoolInsights): number | null {
+  const previous = insights.yesterday.get(yield_);
+  if (previous === undefined || yield_.apyNote) {
+    return null;
+  }
+  return yield_.apyTotal - previous;
+}
+
+/**
+ * Format day-over-day APY change
+ * e.g., 0.52 -> " △ +0.5%"; changes that round to 0.0 are hidden
+ */
+function formatApyDelta(delta: number | null): string {
+  if (delta === null || Math.abs(delta) < 0.05) {
+    return "";
+  }
+  const sign = delta > 0 ? "+" : "-";
+  return ` △ ${sign}${Math.abs(delta).toFixed(1)}%`;
+}
+
 /**
  * Format asset name with optional label
  */
@@ -70,20 +187,12 @@ function formatAssetWithLabel(asset: string, label: string | null): string {
 }
 
 /**
- * Format a single yield opportunity line (within a protocol group)
+ * Format a pool's APY: base + reward when rewards are paid, the 7-day average
+ * with a direction indicator, and the change vs yesterday
+ * e.g., "6.1% (+3.7%) ↑ 7d: 9.1% △ +0.5%"; hardcoded APYs show their note instead
  */
-function formatYieldLine(
-  yield_: YieldOpportunity,
-  isLast: boolean,
-  label?: string | null,
-  avg7d?: number | null
-): string {
-  const prefix = isLast ? "└" : "├";
-  
-  // Format asset with label
-  const assetText = formatAssetWithLabel(yield_.asset, label ?? yield_.poolMeta);
-  
-  // Format APY with optional reward and 7-day average
+function formatApyText(yield_: YieldOpportunity, insights: PoolInsights): string {
+  const avg7d = insights.averages.get(yield_) || null;
   let apyText: string;
   if (yield_.apyNote) {
     // Hardcoded/custom APY with a descriptive note instead of 7d average
@@ -102,21 +211,37 @@ function formatYieldLine(
     // Regular APY with 7-day average and direction indicator
     apyText = formatApy(yield_.apyTotal, avg7d);
   }
+  return apyText + formatApyDelta(getApyDelta(yield_, insights));
+}
+
+/**
+ * Format a single yield opportunity line (within a protocol group)
+ */
+function formatYieldLine(
+  yield_: YieldOpportunity,
+  isLast: boolean,
+  label: string | null | undefined,
+  insights: PoolInsights
+): Line {
+  const prefix = isLast ? "└" : "├";
   
-  // Format TVL
-  const tvlText = formatTvl(yield_.tvlUsd);
+  // Format asset with label (and badge for newly listed pools)
+  const badge = insights.newPools.has(yield_) ? ` ${NEW_BADGE}` : "";
+  const assetText = formatAssetWithLabel(yield_.asset, label ?? yield_.poolMeta) + badge;
+  
+  const apyText = formatApyText(yield_, insights);
   
-  return `${prefix} ${assetText}: ${apyText} | ${tvlText}`;
+  // Format TVL with 24h/7d trend
+  const tvlText = formatTvlWithTrend(yield_, insights);
+  
+  return [`${prefix} ${assetText}: ${apyText} | ${tvlText}`];
 }
 
 /**
  * Format protocol name with optional hyperlink
  */
-function formatProtocolLink(name: string, url: string): string {
-  if (url && url.length > 0) {
-    return `<a href="${url}">${name}</a>`;
-  }
-  return name;
+function formatProtocolLink(name: string, url: string): Inline {
+  return link(url, name);
 }
 
 /**
@@ -161,17 +286,14 @@ function addLabelsForDuplicates(yields: YieldOpportunity[]): Map<YieldOpportunit
  * Format a protocol group with all its yields
  * @param maxYields - Optional limit on how many yields to show (by TVL)
  */
-function formatProtocolGroup(group: ProtocolGroup, averages: Map<YieldOpportunity, number>, maxYields?: number): string {
-  const lines: string[] = [];
-  
+export function formatProtocolGroup(group: ProtocolGroup, insights: PoolInsights, maxYields?: number): Group {
   // Protocol name as header with hyperlink
   // If any yield in this group has a secondary source (e.g. Telegram Wallet), append it
-  const protocolLink = formatProtocolLink(group.protocol, group.protocolUrl);
+  const title: Line = [formatProtocolLink(group.protocol, group.protocolUrl)];
   const secondary = group.yields.find(y => y.secondarySourceUrl);
-  const secondaryLink = secondary?.secondarySourceUrl
-    ? ` & ${formatProtocolLink(secondary.secondarySourceName ?? "Telegram Wallet", secondary.secondarySourceUrl)}`
-    : "";
-  lines.push(`<b>${protocolLink}${secondaryLink}</b>`);
+  if (secondary?.secondarySourceUrl) {
+    title.push(" & ", formatProtocolLink(secondary.secondarySourceName ?? "Telegram Wallet", secondary.secondarySourceUrl));
+  }
   
   // Apply optional limit (yields are already sorted by TVL)
   const yields = maxYields ? group.yields.slice(0, maxYields) : group.yields;
@@ -180,268 +302,321 @@ function formatProtocolGroup(group: ProtocolGroup, averages: Map<YieldOpportunit
   const labels = addLabelsForDuplicates(yields);
   
   // Add each yield line
-  yields.forEach((y, index) => {
-    const label = labels.get(y);
-    const avg7d = averages.get(y) || null;
-    lines.push(formatYieldLine(y, index === yields.length - 1, label, avg7d));
-  });
+  const lines = yields.map((y, index) => formatYieldLine(y, index === yields.length - 1, labels.get(y), insights));
   
-  return lines.join("\n");
+  return { title, lines };
 }
 
 /**
  * Format a category section (TON, STABLE, BTC, ETH, etc.)
- * @param protocolLimits - Optional map of protocol name -> max yields to show
+ * Header is always visible, protocols go in an expandable blockquote
+ * @param protocolCaps - Optional protocol name -> max yields to show
  */
 function formatCategorySection(
   title: string,
   protocolGroups: ProtocolGroup[],
-  averages: Map<YieldOpportunity, number>,
-  protocolLimits?: Map<string, number>
-): string {
+  insights: PoolInsights,
+  protocolCaps?: Record<string, number>
+): Section | null {
   if (protocolGroups.length === 0) {
-    return "";
+    return null;
   }
   
-  const result: string[] = [];
-
-  // Section header - always visible (outside blockquote)
-  result.push(SEPARATOR);
-  result.push(`<b>${title}</b>`);
-
-  // Protocol content wrapped in expandable blockquote
-  const contentLines: string[] = [];
-  protocolGroups.forEach((group, index) => {
-    const limit = protocolLimits?.get(group.protocol);
-    contentLines.push(formatProtocolGroup(group, averages, limit));
-    if (index < protocolGroups.length - 1) {
-      contentLines.push(""); // Spacing between protocols
-    }
-  });
-
-  result.push(`<blockquote expandable>${contentLines.join("\n")}</blockquote>`);
-
-  return result.join("\n");
+  return {
+    separator: true,
+    title: [title],
+    style: "expandable",
+    groups: protocolGroups.map(group => formatProtocolGroup(group, insights, protocolCaps?.[group.protocol])),
+  };
 }
 
 /**
  * Format Top 5 yields section
  */
-function formatTopYieldsSection(yields: YieldOpportunity[], averages: Map<YieldOpportunity, number>): string {
+function formatTopYieldsSection(yields: YieldOpportunity[], insights: PoolInsights): Section | null {
   if (yields.length === 0) {
-    return "";
+    return null;
   }
   
-  const result: string[] = [];
+  const lines = yields.map((y, index): Line => {
+    const rankEmoji = getRankEmoji(index + 1);
 
-  // Section header - always visible
-  result.push(SEPARATOR);
-  result.push("<b>🏆 TOP 5 YIELD OPPORTUNITIES</b>");
+    // Format asset with label if available
+    const badge = insights.newPools.has(y) ? ` ${NEW_BADGE}` : "";
+    const assetText = formatAssetWithLabel(y.asset, y.poolMeta) + badge;
 
-  // Top 5 entries in an expandable blockquote
-  const contentLines: string[] = [];
+    const apyText = formatApyText(y, insights);
 
-  yields.forEach((y) => {
-    const rankEmoji = getRankEmoji(contentLines.length + 1);
+    return [
+      `${rankEmoji} `,
+      formatProtocolLink(y.source, y.sourceUrl),
+      ` ${assetText}: ${apyText} | ${formatTvlWithTrend(y, insights)}`,
+    ];
+  });
 
-    // Format asset with label if available
-    const assetText = formatAssetWithLabel(y.asset, y.poolMeta);
-
-    // Format APY with 7-day average and direction
-    const avg7d = averages.get(y) || null;
-    let apyText: string;
-    if (y.apyNote) {
-      apyText = `~${y.apyTotal.toFixed(2)}% (${y.apyNote})`;
-    } else if (y.apyReward && y.apyReward > 0.1) {
-      const baseReward = `${formatApy(y.apyBase)} (+${formatApy(y.apyReward)})`;
-      if (avg7d !== null && avg7d !== undefined) {
-        const direction = getApyDirection(y.apyTotal, avg7d);
-        const average = avg7d.toFixed(1);
-        apyText = `${baseReward}${direction} 7d: ${average}%`;
-      } else {
-        apyText = baseReward;
-      }
-    } else {
-      apyText = formatApy(y.apyTotal, avg7d);
-    }
+  return createSection("expandable", lines, { separator: true, title: ["🏆 TOP 5 YIELD OPPORTUNITIES"] });
+}
 
-    const protocolLink = formatProtocolLink(y.source, y.sourceUrl);
-    contentLines.push(`${rankEmoji} ${protocolLink} ${assetText}: ${apyText} | ${formatTvl(y.tvlUsd)}`);
+/**
+ * Format the "Newly listed" section (pools first seen within config.newPoolDays)
+ */
+function formatNewPoolsSection(newPools: Set<YieldOpportunity>): Section | null {
+  if (newPools.size === 0) {
+    return null;
+  }
+
+  const sorted = [...newPools].sort((a, b) => b.tvlUsd - a.tvlUsd);
+  const lines = sorted.map((y): Line => [
+    "• ",
+    formatProtocolLink(y.source, y.sourceUrl),
+    ` ${formatAssetWithLabel(y.asset, y.poolMeta)}: ${formatApy(y.apyTotal)} | ${formatTvl(y.tvlUsd)}`,
+  ]);
+
+  return createSection("expandable", lines, { separator: true, title: [`${NEW_BADGE} NEWLY LISTED`] });
+}
+
+/**
+ * Format the "Biggest movers" section (largest APY changes vs yesterday)
+ */
+function formatMoversSection(pools: YieldOpportunity[], insights: PoolInsights): Section | null {
+  const changes = pools
+    .map(y => ({ pool: y, delta: getApyDelta(y, insights) }))
+    .filter((c): c is { pool: YieldOpportunity; delta: number } => c.delta !== null && Math.abs(c.delta) >= 0.05);
+
+  const risers = changes.filter(c => c.delta > 0).sort((a, b) => b.delta - a.delta).slice(0, MOVERS_PER_DIRECTION);
+  const fallers = changes.filter(c => c.delta < 0).sort((a, b) => a.delta - b.delta).slice(0, MOVERS_PER_DIRECTION);
+
+  if (risers.length === 0 && fallers.length === 0) {
+    return null;
+  }
+
+  const formatMover = ({ pool, delta }: { pool: YieldOpportunity; delta: number }, icon: string): Line => [
+    `${icon} `,
+    formatProtocolLink(pool.source, pool.sourceUrl),
+    ` ${formatAssetWithLabel(pool.asset, pool.poolMeta)}: ${formatApy(pool.apyTotal)}${formatApyDelta(delta)}`,
+  ];
+
+  const lines = [
+    ...risers.map(c => formatMover(c, "🟢")),
+    ...fallers.map(c => formatMover(c, "🔴")),
+  ];
+  return createSection("expandable", lines, { separator: true, title: ["📈 BIGGEST MOVERS"] });
+}
+
+/**
+ * Format the TVL warnings section (pools that lost more than config.tvlDropWarningPercent in a day)
+ * e.g., "⚠️ EVAA USDT: TVL -42% in 24h ($3.1M → $1.8M)"
+ */
+function formatTvlWarningsSection(pools: YieldOpportunity[], insights: PoolInsights): Section | null {
+  const dropped = pools
+    .filter(y => hasTvlDropWarning(y, insights))
+    .sort((a, b) => insights.tvlChanges.get(a)!.change24h! - insights.tvlChanges.get(b)!.change24h!);
+
+  if (dropped.length === 0) {
+    return null;
+  }
+
+  const lines = dropped.map((y): Line => {
+    const change24h = insights.tvlChanges.get(y)!.change24h!;
+    const previousTvl = y.tvlUsd / (1 + change24h / 100);
+    return [
+      "⚠️ ",
+      formatProtocolLink(y.source, y.sourceUrl),
+      ` ${formatAssetWithLabel(y.asset, y.poolMeta)}: TVL ${change24h.toFixed(0)}% in 24h (${formatTvl(previousTvl)} → ${formatTvl(y.tvlUsd)})`,
+    ];
   });
 
-  result.push(`<blockquote expandable>${contentLines.join("\n")}</blockquote>`);
+  // Always visible (not collapsed)
+  return createSection("quote", lines, { separator: true, title: ["⚠️ TVL WARNINGS"] });
+}
 
-  return result.join("\n");
+/**
+ * Format the note listing pools that disappeared since yesterday
+ * e.g., "Delisted since yesterday: EVAA USDT (Main), STON.fi TON-USDT"
+ */
+function formatDelistedNote(delisted: PoolLabel[]): Section | null {
+  if (delisted.length === 0) {
+    return null;
+  }
+
+  const names = delisted.map(p => `${p.source} ${formatAssetWithLabel(p.asset, p.poolMeta)}`);
+  return createSection("plain", [[italic(`🚫 Delisted since yesterday: ${names.join(", ")}`)]]);
 }
 
 /**
- * Get current UTC date formatted
+ * Format a date in UTC
+ * e.g., "Oct 19, 2026"
  */
-function getCurrentDateUTC(): string {
-  const now = new Date();
+function formatDateUTC(date: Date): string {
   const options: Intl.DateTimeFormatOptions = {
     month: "short",
     day: "numeric",
     year: "numeric",
+    timeZone: "UTC",
   };
-  return now.toLocaleDateString("en-US", options);
+  return date.toLocaleDateString("en-US", options);
 }
 
 /**
- * Get current UTC time formatted
+ * Format a time of day in UTC
+ * e.g., "09:05 UTC"
  */
-function getCurrentTimeUTC(): string {
-  const now = new Date();
-  const hours = now.getUTCHours().toString().padStart(2, "0");
-  const minutes = now.getUTCMinutes().toString().padStart(2, "0");
+function formatTimeUTC(date: Date): string {
+  const hours = date.getUTCHours().toString().padStart(2, "0");
+  const minutes = date.getUTCMinutes().toString().padStart(2, "0");
   return `${hours}:${minutes} UTC`;
 }
 
 /**
- * Group yields by protocol within each category
+ * Format warning lines for sources that failed during the run
+ * e.g., "⚠️ Euler data unavailable today"
  */
-function organizeByProtocol(yields: YieldOpportunity[]): ProtocolGroup[] {
-  const protocolMap = new Map<string, YieldOpportunity[]>();
-  
-  for (const yield_ of yields) {
-    const existing = protocolMap.get(yield_.source) || [];
-    existing.push(yield_);
-    protocolMap.set(yield_.source, existing);
-  }
-  
-  // Convert to array
-  const groups: ProtocolGroup[] = [];
-  for (const [protocol, protocolYields] of protocolMap) {
-    groups.push({
-      protocol,
-      protocolUrl: protocolYields[0].sourceUrl,
-      yields: protocolYields.sort((a, b) => b.tvlUsd - a.tvlUsd),
-    });
-  }
-  
-  // Sort by total TVL
-  groups.sort((a, b) => {
-    const tvlA = a.yields.reduce((sum, y) => sum + y.tvlUsd, 0);
-    const tvlB = b.yields.reduce((sum, y) => sum + y.tvlUsd, 0);
-    return tvlB - tvlA;
-  });
-  
-  return groups;
+function formatSourceWarnings(report: RunReport): Line[] {
+  return getFailedSources(report).map(s => [italic(`⚠️ ${s.name} data unavailable today`)]);
 }
 
 /**
- * Format the complete message for Telegram channel
- * Uses HTML parse mode for formatting
+ * Build the daily post from yields and precomputed history data (no I/O)
  */
-export async function formatChannelMessage(yields: GroupedYields): Promise<string> {
-  const sections: string[] = [];
-  
-  // Collect all pools into a flat array for APY history tracking
-  const allPools = [...yields.TON, ...yields.STABLE, ...yields.BTC, ...yields.ETH, ...yields.TON_USDT];
-
-  // IMPORTANT: Save today's APY snapshots FIRST before calculating averages
-  // This ensures today's data is included in the average calculation
-  await saveAllApySnapshots(allPools);
-  
-  // Calculate 7-day averages for all pools (includes today's data)
-  const averages = await calculateAll7DayAverages(allPools);
-  
-  // Fetch TON TVL
-  const tonTvl = await fetchTonTVL();
-  
-  // Count displayed opportunities (EVAA capped at 3 in stable section)
-  const evaaDisplayed = Math.min(yields.STABLE.filter(y => y.source === "EVAA").length, 3);
-  const nonEvaaStable = yields.STABLE.filter(y => y.source !== "EVAA").length;
-  const displayedCount = yields.TON.length + evaaDisplayed + nonEvaaStable + yields.BTC.length + yields.ETH.length + yields.TON_USDT.length;
-  const activeCategories = [yields.TON, yields.STABLE, yields.BTC, yields.ETH, yields.TON_USDT].filter(c => c.length > 0).length;
+export function buildChannelDocument(yields: GroupedYields, data: ChannelData): MessageDocument {
+  const { insights, report } = data;
+  const sections: Array<Section | null> = [];
+  const allPools = flattenYields(yields);
+  
+  // Count displayed opportunities (after per-protocol caps)
+  const categories = getCategories();
+  const displayedCount = categories.reduce((sum, category) => {
+    const groups = groupByProtocol(yields[category.id]);
+    return sum + groups.reduce((count, group) => {
+      const cap = category.protocolCaps?.[group.protocol];
+      return count + (cap === undefined ? group.yields.length : Math.min(group.yields.length, cap));
+    }, 0);
+  }, 0);
+  const activeCategories = categories.filter(category => yields[category.id].length > 0).length;
 
   // Header
-  sections.push("<b>TON Yields Daily</b>");
-  sections.push(`${getCurrentDateUTC()}`);
-  
-  // TON TVL (if available)
-  if (tonTvl > 0) {
-    // Calculate 24h change
-    const change = await calculateTvlChange(tonTvl);
-    
-    // Save today's snapshot for future comparisons
-    await saveTvlSnapshot(tonTvl);
-    
-    // Format TVL line with change
-    let tvlLine = `<i>💎 TON DeFi TVL: ${formatTVL(tonTvl)}`;
-    if (change) {
-      const changeStr = formatTvlChange(change.change, change.changePercent);
-      tvlLine += ` <b>${changeStr}</b> 24h`;
+  const header: Line[] = [[bold("TON Yields Daily")], [formatDateUTC(data.generatedAt)]];
+  
+  // TON TVL (if available), with its 24h change
+  if (data.tonTvl > 0) {
+    const tvlLine: Inline[] = [`💎 TON DeFi TVL: ${formatTVL(data.tonTvl)}`];
+    if (data.tonTvlChange) {
+      const changeStr = formatTvlChange(data.tonTvlChange.change, data.tonTvlChange.changePercent);
+      tvlLine.push(" ", bold(changeStr), " 24h");
     }
-    tvlLine += `</i>`;
-    
-    sections.push(tvlLine);
+    header.push([italic(...tvlLine)]);
   }
 
-  sections.push(`<i>${displayedCount} opportunities · ${activeCategories} categories</i>`);
-  sections.push("");
+  header.push([italic(`${displayedCount} opportunities · ${activeCategories} categories`)]);
+  sections.push(createSection("plain", header));
   
   // Top 5 Yields section
-  const top5 = getTopYields(yields, 5);
-  const topSection = formatTopYieldsSection(top5, averages);
-  if (topSection) {
-    sections.push(topSection);
-    sections.push("");
-  }
+  sections.push(formatTopYieldsSection(getTopYields(yields, 5), insights));
   
-  // TON and related assets section
-  const tonGroups = organizeByProtocol(yields.TON);
-  const tonSection = formatCategorySection("💎 TON AND RELATED ASSETS", tonGroups, averages);
-  if (tonSection) {
-    sections.push(tonSection);
-    sections.push("");
-  }
+  // Biggest APY changes vs yesterday (if any)
+  sections.push(formatMoversSection(allPools, insights));
   
-  // Stablecoins section (EVAA capped at 3 pools to avoid clutter)
-  const stableGroups = organizeByProtocol(yields.STABLE);
-  const stableLimits = new Map([["EVAA", 3]]);
-  const stableSection = formatCategorySection("💵 STABLECOINS AND RELATED ASSETS", stableGroups, averages, stableLimits);
-  if (stableSection) {
-    sections.push(stableSection);
-    sections.push("");
-  }
+  // Pools with a large TVL drop since yesterday (if any)
+  sections.push(formatTvlWarningsSection(allPools, insights));
   
-  // TON-USDT pools section (impermanent loss risk)
-  const tonUsdtGroups = organizeByProtocol(yields.TON_USDT);
-  const tonUsdtSection = formatCategorySection("🔄 YIELDS FOR TON-USDT POOLS", tonUsdtGroups, averages);
-  if (tonUsdtSection) {
-    sections.push(tonUsdtSection);
-    sections.push("");
+  // Newly listed pools (if any)
+  sections.push(formatNewPoolsSection(insights.newPools));
+  
+  // One section per category, in config order (empty categories are skipped)
+  for (const category of categories) {
+    const groups = groupByProtocol(yields[category.id]);
+    sections.push(formatCategorySection(getCategoryTitle(category), groups, insights, category.protocolCaps));
   }
   
-  // BTC section (if any)
-  const btcGroups = organizeByProtocol(yields.BTC);
-  const btcSection = formatCategorySection("₿ BTC AND RELATED ASSETS", btcGroups, averages);
-  if (btcSection) {
-    sections.push(btcSection);
-    sections.push("");
+  // Footer
+  sections.push({ separator: true, style: "plain", groups: [] });
+  sections.push(formatDelistedNote(data.delisted));
+  if (report && config.showSourceWarnings) {
+    const warnings = formatSourceWarnings(report);
+    if (warnings.length > 0) {
+      sections.push(createSection("plain", warnings));
+    }
   }
+  const attributions: Inline[] = [];
+  getSourceAttributions().forEach(({ name, url }, index) => {
+    if (index > 0) attributions.push(" · ");
+    attributions.push(formatProtocolLink(name, url));
+  });
+  sections.push(createSection("plain", [
+    [italic("APY (7d avg) ↑↓ △ vs yesterday | TVL (24h, 7d)")],
+    [italic("📊 ", ...attributions, ` · ${formatTimeUTC(data.generatedAt)}`)],
+  ]));
+  
+  return { sections: sections.filter((s): s is Section => s !== null) };
+}
 
-  // ETH section (if any)
-  const ethGroups = organizeByProtocol(yields.ETH);
-  const ethSection = formatCategorySection("⟠ ETH AND RELATED ASSETS", ethGroups, averages);
-  if (ethSection) {
-    sections.push(ethSection);
-    sections.push("");
+/**
+ * Save today's APY/TVL snapshots and load the history the daily post compares against
+ * Today's values are always part of the comparison (7-day averages, new pools),
+ * whether or not they are saved.
+ * @param report - Optional run report; failed sources get a warning line
+ * @param options.kvWrite - Save today's snapshots (default true; false leaves KV untouched)
+ */
+export async function loadChannelData(
+  yields: GroupedYields,
+  report?: RunReport,
+  options: { kvWrite?: boolean } = {},
+): Promise<ChannelData> {
+  const generatedAt = now();
+  const kvWrite = options.kvWrite ?? true;
+
+  // Collect all pools into a flat array for APY history tracking
+  const allPools = flattenYields(yields);
+
+  if (kvWrite) {
+    await saveAllApySnapshots(allPools);
   }
   
-  // Footer
-  sections.push(SEPARATOR);
-  sections.push("");
-  sections.push("<i>APY (7d avg) ↑↓ | TVL</i>");
-  sections.push(`<i>📊 <a href="https://defillama.com/">DefiLlama</a> · <a href="https://merkl.xyz/">Merkl</a> · <a href="https://goldsky.com/">Goldsky</a> · <a href="https://swap.coffee/">Swap.coffee</a> · ${getCurrentTimeUTC()}</i>`);
+  // Stored history plus today's snapshots, loaded once for every comparison below
+  const histories = await loadPoolHistories(allPools);
+  const averages = await calculateAll7DayAverages(allPools, histories);
+  
+  // Compare against history to find listings and delistings
+  const newPools = await getNewPools(allPools, config.newPoolDays, histories);
+  const delisted = await getDelistedPools(allPools, histories);
+  const yesterday = await getAllYesterdayApys(allPools, histories);
+  const tvlChanges = await calculateAllTvlChanges(allPools, histories);
+  const insights: PoolInsights = { averages, newPools, yesterday, tvlChanges };
   
-  return sections.join("\n");
+  // Fetch TON TVL
+  const tonTvl = await fetchTonTVL();
+  let tonTvlChange: ChannelData["tonTvlChange"] = null;
+  if (tonTvl > 0) {
+    // Calculate 24h change, then save today's snapshot for future comparisons
+    tonTvlChange = await calculateTvlChange(tonTvl);
+    if (kvWrite) {
+      await saveTvlSnapshot(tonTvl);
+    }
+  }
+  
+  return { insights, delisted, tonTvl, tonTvlChange, report, generatedAt };
+}
+
+/**
+ * Format the complete post for Telegram channel
+ * Saves today's APY/TVL snapshots, loads history, then renders HTML.
+ * Returns one or more messages, split at section boundaries so each stays
+ * within Telegram's length limit (post them in order).
+ * @param report - Optional run report; failed sources get a warning line
+ * @param options.kvWrite - Save today's snapshots (default true)
+ */
+export async function formatChannelMessage(
+  yields: GroupedYields,
+  report?: RunReport,
+  options: { kvWrite?: boolean } = {},
+): Promise<string[]> {
+  const data = await loadChannelData(yields, report, options);
+  return splitMessage(renderDocumentHtml(buildChannelDocument(yields, data)));
 }
 
 /**
  * Format a simple test message
  */
 export function formatTestMessage(): string {
-  return `<b>TON Yields Bot</b>\n\nBot is running!\n\n<i>Test message sent at ${getCurrentTimeUTC()}</i>`;
+  return `<b>TON Yields Bot</b>\n\nBot is running!\n\n<i>Test message sent at ${formatTimeUTC(new Date())}</i>`;
 }
@@ -0,0 +1,205 @@
+/**
+ * Golden snapshot tests for the daily post
+ * Rendered output is compared with the files in ./testdata. After an intended
+ * formatting change, regenerate them with `UPDATE_GOLDEN=1 deno task test`
+ * and review the diff.
+ */
+
+import { assertEquals } from "std/assert/mod.ts";
+import type { RunReport, YieldOpportunity } from "../types/yields.ts";
+import { groupByCategory } from "../services/categories.ts";
+import { generatePoolId } from "../services/apy_history.ts";
+import { importHistory } from "../services/history_export.ts";
+import { setKv } from "../services/kv.ts";
+import { liveTransport, setTransport } from "../services/transport.ts";
+import { buildChannelDocument, type ChannelData, loadChannelData } from "./message.ts";
+import { renderDocumentHtml, renderDocumentMarkdown } from "./document.ts";
+import { splitMessage } from "./split.ts";
+import { createPool } from "../testing/pools.ts";
+
+const UPDATE_GOLDEN = Deno.env.get("UPDATE_GOLDEN") === "1";
+
+const GENERATED_AT = new Date("2026-10-19T09:05:00.000Z");
+
+/**
+ * Compare output with a golden file (or rewrite it when UPDATE_GOLDEN=1)
+ */
+async function assertGolden(name: string, actual: string): Promise<void> {
+  const url = new URL(`./testdata/${name}`, import.meta.url);
+  if (UPDATE_GOLDEN) {
+    await Deno.mkdir(new URL("./testdata/", import.meta.url), { recursive: true });
+    await Deno.writeTextFile(url, actual);
+    return;
+  }
+  const expected = await Deno.readTextFile(url);
+  assertEquals(actual, expected, `${name} changed; run UPDATE_GOLDEN=1 deno task test if intended`);
+}
+
+/**
+ * Join split messages so the golden file also shows where the post is split
+ */
+function joinMessages(messages: string[]): string {
+  return messages.map((message, index) => `===== message ${index + 1} =====\n${message}\n`).join("\n");
+}
+
+/**
+ * One pool per formatting case; BTC, ETH and GOLD are left empty
+ */
+function createPools() {
+  const tonstakers = createPool({
+    source: "Tonstakers",
+    sourceUrl: "https://tonstakers.com/",
+    asset: "tsTON",
+    assetType: "TON",
+    apyBase: 3.41,
+    apyTotal: 3.41,
+    tvlUsd: 186_400_000,
+  });
+  const bemo = createPool({
+    source: "Bemo",
+    sourceUrl: "https://bemo.fi/",
+    asset: "TON-stTON",
+    poolMeta: "stTON",
+    assetType: "TON",
+    apyBase: 3.12,
+    apyTotal: 3.12,
+    tvlUsd: 8_450_000,
+  });
+  // Reward pool: base + reward shown separately
+  const evaaUsdt = createPool({
+    source: "EVAA",
+    asset: "USDT",
+    poolMeta: "Main",
+    apyBase: 6.12,
+    apyReward: 3.72,
+    apyTotal: 9.84,
+    tvlUsd: 41_250_000,
+  });
+  // EVAA has four stable pools but is capped at three; the smallest is hidden
+  const evaaUsdc = createPool({ source: "EVAA", asset: "USDC", apyBase: 4.2, apyTotal: 4.2, tvlUsd: 7_800_000 });
+  const evaaTsUsde = createPool({ source: "EVAA", asset: "tsUSDe", apyBase: 0.03, apyTotal: 0.03, tvlUsd: 5_120_000 });
+  const evaaLp = createPool({ source: "EVAA", asset: "USDT", poolMeta: "LP", apyBase: 8.1, apyTotal: 8.1, tvlUsd: 320_000 });
+  // Secondary source link
+  const morphoUsdt = createPool({
+    source: "Morpho",
+    sourceUrl: "https://t.me/MorphoOrgBot",
+    chain: "TAC",
+    asset: "USDT",
+    apyBase: 4.4,
+    apyReward: 6.6,
+    apyTotal: 11,
+    tvlUsd: 9_300_000,
+    secondarySourceUrl: "https://bit.ly/Earn_With_USDT",
+    secondarySourceName: "Telegram Wallet",
+  });
+  // Hardcoded APY with a note instead of the 7-day average
+  const midas = createPool({
+    source: "Telegram Wallet",
+    sourceUrl: "https://bit.ly/Earn_With_USDT",
+    asset: "Midas USDT vault",
+    apyBase: 17.98,
+    apyTotal: 17.98,
+    apyNote: "5y avg",
+    tvlUsd: 5_225_844,
+    tvlEstimated: true,
+  });
+  // TON-USDT section
+  const stonfi = createPool({
+    source: "Ston.fi",
+    sourceUrl: "https://app.ston.fi/pools",
+    asset: "TON-USDT",
+    isTonUsdtPool: true,
+    apyBase: 11.9,
+    apyReward: 2.3,
+    apyTotal: 14.2,
+    tvlUsd: 12_800_000,
+  });
+
+  return { tonstakers, bemo, evaaUsdt, evaaUsdc, evaaTsUsde, evaaLp, morphoUsdt, midas, stonfi };
+}
+
+const report: RunReport = {
+  startedAt: "2026-10-19T09:00:00.000Z",
+  finishedAt: "2026-10-19T09:00:04.000Z",
+  sources: [{ id: "euler", name: "Euler", status: "timeout", latencyMs: 30000, poolCount: 0, error: "timed out" }],
+  dedup: [],
+  unknownAssets: [],
+};
+
+Deno.test("daily post matches the golden snapshot", async () => {
+  const pools = createPools();
+  const yields = groupByCategory(Object.values(pools));
+  const data: ChannelData = {
+    insights: {
+      averages: new Map([[pools.tonstakers, 3.38], [pools.evaaUsdt, 9.1], [pools.evaaUsdc, 4.9], [pools.morphoUsdt, 11.2]]),
+      newPools: new Set([pools.bemo]),
+      yesterday: new Map([[pools.tonstakers, 3.4], [pools.evaaUsdt, 8.9], [pools.evaaUsdc, 5.3], [pools.midas, 17.98]]),
+      tvlChanges: new Map([
+        [pools.tonstakers, { change24h: 1.2, change7d: 4.8 }],
+        [pools.evaaUsdc, { change24h: -42, change7d: -45 }],
+        [pools.stonfi, { change24h: 0.2, change7d: null }],
+      ]),
+    },
+    delisted: [{ source: "DeDust", asset: "USDT-USDC", poolMeta: null }],
+    tonTvl: 100_150_000,
+    tonTvlChange: { change: 1_250_000, changePercent: 1.26 },
+    report,
+    generatedAt: GENERATED_AT,
+  };
+
+  const document = buildChannelDocument(yields, data);
+  await assertGolden("channel_post.html", joinMessages(splitMessage(renderDocumentHtml(document))));
+  await assertGolden("channel_post.md", renderDocumentMarkdown(document).join("\n\n") + "\n");
+});
+
+Deno.test("daily post built from KV history matches the golden snapshot", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  // TON TVL comes from DefiLlama protocols; nothing else is fetched
+  setTransport(() =>
+    Promise.resolve(Response.json([
+      { name: "EVAA Protocol", category: "Lending", chains: ["TON"], chainTvls: { TON: 41_250_000 } },
+      { name: "STON.fi", category: "Dexs", chains: ["TON"], chainTvls: { TON: 58_900_000 } },
+    ]))
+  );
+
+  try {
+    const pools = createPools();
+    const day = (daysAgo: number) => new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const snapshot = (pool: YieldOpportunity, daysAgo: number, apy: number, tvl: number) => ({
+      poolId: generatePoolId(pool),
+      date: day(daysAgo),
+      apy,
+      tvl,
+      timestamp: 0,
+      label: { source: pool.source, asset: pool.asset, poolMeta: pool.poolMeta },
+    });
+    // Every pool but Bemo existed before; the DeDust pool is gone today
+    const dedust = createPool({ source: "DeDust", asset: "USDT-USDC" });
+    await importHistory({
+      version: 1,
+      exportedAt: "",
+      range: { from: day(2), to: day(1) },
+      poolSnapshots: [
+        ...Object.values(pools)
+          .filter(pool => pool !== pools.bemo)
+          .flatMap(pool => [
+            snapshot(pool, 2, pool.apyTotal * 0.9, pool.tvlUsd * 0.9),
+            snapshot(pool, 1, pool.apyTotal * 0.95, pool.tvlUsd),
+          ]),
+        snapshot(pools.evaaUsdc, 1, 5.3, 13_000_000),
+        snapshot(dedust, 1, 2.1, 400_000),
+      ],
+      tvlSnapshots: [{ date: day(1), tvl: 98_900_000, timestamp: 0 }],
+      runReports: [],
+    });
+
+    const yields = groupByCategory(Object.values(pools));
+    const data = await loadChannelData(yields, report);
+    const document = buildChannelDocument(yields, { ...data, generatedAt: GENERATED_AT });
+    await assertGolden("channel_post_history.html", joinMessages(splitMessage(renderDocumentHtml(document))));
+  } finally {
+    setTransport(liveTransport);
+    kv.close();
+  }
+});
@@ -0,0 +1,89 @@
+import { assert, assertStringIncludes } from "std/assert/mod.ts";
+import type { GroupedYields, RunReport, YieldOpportunity } from "../types/yields.ts";
+import { groupByCategory } from "../services/categories.ts";
+import { groupByProtocol } from "../services/aggregator.ts";
+import { buildChannelDocument, type ChannelData, formatProtocolGroup } from "./message.ts";
+import { renderDocumentHtml, renderGroupHtml } from "./document.ts";
+import { createPool } from "../testing/pools.ts";
+
+/** Upstream text that breaks Telegram HTML when interpolated unescaped */
+const HOSTILE = `<b>&"x"</blockquote>`;
+
+/** Tags our formatters emit; anything else left after removing them is unescaped input */
+const ALLOWED_TAGS = /<\/?(?:b|i|blockquote)>|<blockquote expandable>|<a href="[^"<>]*">|<\/a>/g;
+
+/**
+ * Pools with hostile names in every field the formatters print
+ */
+function createHostilePools(): YieldOpportunity[] {
+  return [
+    createPool({ asset: `USDT${HOSTILE}`, poolMeta: HOSTILE, source: `Vault ${HOSTILE}`, sourceUrl: `https://x.io/?a=1&b="${HOSTILE}"` }),
+    createPool({ asset: `USDC${HOSTILE}`, apyReward: 3, apyTotal: 8, secondarySourceUrl: "https://t.me/wallet", secondarySourceName: HOSTILE }),
+    createPool({ asset: `tsTON${HOSTILE}`, assetType: "TON", source: HOSTILE, sourceUrl: "javascript:alert(1)", apyNote: HOSTILE }),
+    createPool({ asset: `TON-USDT${HOSTILE}`, isTonUsdtPool: true, source: `DEX ${HOSTILE}` }),
+  ];
+}
+
+function createChannelData(pools: YieldOpportunity[]): ChannelData {
+  const report: RunReport = {
+    startedAt: "2026-01-01T09:00:00.000Z",
+    finishedAt: "2026-01-01T09:00:05.000Z",
+    sources: [{ id: "broken", name: `Source ${HOSTILE}`, status: "error", latencyMs: 10, poolCount: 0, error: HOSTILE }],
+    dedup: [],
+    unknownAssets: [],
+  };
+  return {
+    insights: {
+      averages: new Map(pools.map(p => [p, p.apyTotal - 1])),
+      newPools: new Set(pools),
+      yesterday: new Map(pools.map(p => [p, p.apyTotal - 2])),
+      tvlChanges: new Map(pools.map(p => [p, { change24h: -50, change7d: 10 }])),
+    },
+    delisted: [{ source: HOSTILE, asset: HOSTILE, poolMeta: HOSTILE }],
+    tonTvl: 100_000_000,
+    tonTvlChange: { change: 1_000_000, changePercent: 1 },
+    report,
+    generatedAt: new Date("2026-01-01T09:00:05.000Z"),
+  };
+}
+
+/**
+ * Assert that only our own tags remain and every "&" starts an entity
+ */
+function assertSafeHtml(html: string): void {
+  const text = html.replace(ALLOWED_TAGS, "");
+  assert(!/[<>]/.test(text), `Unescaped tag character in: ${text}`);
+  assert(!/&(?!amp;|lt;|gt;|quot;)/.test(text), `Unescaped "&" in: ${text}`);
+
+  const opened = (html.match(/<blockquote[ >]/g) ?? []).length;
+  const closed = (html.match(/<\/blockquote>/g) ?? []).length;
+  assert(opened === closed, `Unbalanced blockquotes (${opened} opened, ${closed} closed)`);
+}
+
+Deno.test("daily post escapes hostile upstream names in every section", () => {
+  const pools = createHostilePools();
+  const yields: GroupedYields = groupByCategory(pools);
+  const sections = renderDocumentHtml(buildChannelDocument(yields, createChannelData(pools)));
+  const html = sections.join("\n\n");
+
+  // Top 5, movers, TVL warnings, newly listed, categories, TON-USDT, delisted note, source warnings
+  for (const title of ["TOP 5", "BIGGEST MOVERS", "TVL WARNINGS", "NEWLY LISTED", "STABLECOINS", "TON-USDT POOLS"]) {
+    assertStringIncludes(html, title);
+  }
+  assertStringIncludes(html, "Delisted since yesterday");
+  assertStringIncludes(html, "data unavailable today");
+
+  for (const section of sections) {
+    assertSafeHtml(section);
+  }
+  assertStringIncludes(html, "&lt;b&gt;&amp;\"x\"&lt;/blockquote&gt;");
+  assert(!html.includes("javascript:"), "Unsupported link scheme rendered as a link");
+});
+
+Deno.test("protocol groups escape names, labels and secondary links", () => {
+  const pools = createHostilePools();
+  const data = createChannelData(pools);
+  for (const group of groupByProtocol(pools)) {
+    assertSafeHtml(renderGroupHtml(formatProtocolGroup(group, data.insights)));
+  }
+});
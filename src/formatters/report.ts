@@ -0,0 +1,155 @@
+/**
+ * Daily Report Output
+ * Renders the daily post in other formats for the CLI (`--format`):
+ * Telegram HTML, Telegram MarkdownV2, plain text, or a structured JSON report
+ * for piping into other tools.
+ */
+
+import type { AssetType, Chain, GroupedYields, SourceStatus, YieldOpportunity } from "../types/yields.ts";
+import { getTopYields } from "../services/aggregator.ts";
+import { getCategories, getCategoryTitle } from "../services/categories.ts";
+import { getFailedSources } from "../services/run_reports.ts";
+import type { PoolLabel } from "../services/apy_history.ts";
+import { buildChannelDocument, type ChannelData, type PoolInsights } from "./message.ts";
+import { renderDocumentHtml, renderDocumentMarkdown, renderDocumentText } from "./document.ts";
+
+/**
+ * Output formats selectable with `--format`
+ */
+export const OUTPUT_FORMATS = ["html", "md", "text", "json"] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * A pool as it appears in the JSON report
+ */
+export interface PoolReport {
+  /** Stable pool ID (see YieldOpportunity.id) */
+  id: string;
+  chain: Chain;
+  assetType: AssetType;
+  protocol: string;
+  asset: string;
+  poolMeta: string | null;
+  url: string;
+  apy: {
+    total: number;
+    base: number;
+    reward: number | null;
+    /** 7-day average (null until enough history) */
+    avg7d: number | null;
+    /** Yesterday's APY (null when the pool wasn't tracked yesterday) */
+    yesterday: number | null;
+  };
+  tvl: {
+    usd: number;
+    /** True when computed by us rather than reported upstream */
+    estimated: boolean;
+    /** Change in percent vs yesterday / 7 days ago (null without a snapshot) */
+    change24h: number | null;
+    change7d: number | null;
+  };
+  /** First seen within config.newPoolDays */
+  isNew: boolean;
+}
+
+/**
+ * The daily post as structured data (`--format json`)
+ */
+export interface ChannelReport {
+  /** ISO timestamp when the report was built */
+  generatedAt: string;
+  /** TON DeFi TVL (null when unavailable) */
+  tonTvl: { usd: number; change: number | null; changePercent: number | null } | null;
+  /** Categories in display order, pools sorted by TVL (all pools, before per-protocol caps) */
+  categories: Array<{ id: string; title: string; pools: PoolReport[] }>;
+  /** Pool IDs of the TOP 5 section */
+  top: string[];
+  /** Pools tracked yesterday but missing today */
+  delisted: PoolLabel[];
+  /** Sources that failed during the run */
+  failedSources: Array<{ id: string; name: string; status: SourceStatus; error?: string }>;
+}
+
+/**
+ * Check whether a `--format` value is supported
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Convert a pool and its history to the JSON report shape
+ */
+function toPoolReport(pool: YieldOpportunity, insights: PoolInsights): PoolReport {
+  const tvlChange = insights.tvlChanges.get(pool);
+  return {
+    id: pool.id,
+    chain: pool.chain,
+    assetType: pool.assetType,
+    protocol: pool.source,
+    asset: pool.asset,
+    poolMeta: pool.poolMeta,
+    url: pool.sourceUrl,
+    apy: {
+      total: pool.apyTotal,
+      base: pool.apyBase,
+      reward: pool.apyReward,
+      avg7d: insights.averages.get(pool) ?? null,
+      yesterday: insights.yesterday.get(pool) ?? null,
+    },
+    tvl: {
+      usd: pool.tvlUsd,
+      estimated: pool.tvlEstimated,
+      change24h: tvlChange?.change24h ?? null,
+      change7d: tvlChange?.change7d ?? null,
+    },
+    isNew: insights.newPools.has(pool),
+  };
+}
+
+/**
+ * Build the structured report from yields and precomputed history data (no I/O)
+ */
+export function buildChannelReport(yields: GroupedYields, data: ChannelData): ChannelReport {
+  const { insights } = data;
+  return {
+    generatedAt: data.generatedAt.toISOString(),
+    tonTvl: data.tonTvl > 0
+      ? {
+        usd: data.tonTvl,
+        change: data.tonTvlChange?.change ?? null,
+        changePercent: data.tonTvlChange?.changePercent ?? null,
+      }
+      : null,
+    categories: getCategories().map(category => ({
+      id: category.id,
+      title: getCategoryTitle(category),
+      pools: yields[category.id].map(pool => toPoolReport(pool, insights)),
+    })),
+    top: getTopYields(yields, 5).map(pool => pool.id),
+    delisted: data.delisted,
+    failedSources: data.report
+      ? getFailedSources(data.report).map(({ id, name, status, error }) => ({ id, name, status, error }))
+      : [],
+  };
+}
+
+/**
+ * Render the whole daily post in the given format (one string, not split into messages)
+ */
+export function renderChannelOutput(yields: GroupedYields, data: ChannelData, format: OutputFormat): string {
+  if (format === "json") {
+    return JSON.stringify(buildChannelReport(yields, data), null, 2);
+  }
+
+  const document = buildChannelDocument(yields, data);
+  switch (format) {
+    case "html":
+      return renderDocumentHtml(document).join("\n\n");
+    case "md":
+      return renderDocumentMarkdown(document).join("\n\n");
+    case "text":
+      return renderDocumentText(document).join("\n\n");
+  }
+}
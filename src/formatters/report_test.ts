@@ -0,0 +1,74 @@
+import { assertEquals, assertStringIncludes } from "std/assert/mod.ts";
+import type { RunReport } from "../types/yields.ts";
+import { groupByCategory } from "../services/categories.ts";
+import type { ChannelData } from "./message.ts";
+import { buildChannelReport, isOutputFormat, renderChannelOutput } from "./report.ts";
+import { createPool } from "../testing/pools.ts";
+
+const usdt = createPool({});
+const ton = createPool({ asset: "tsTON", assetType: "TON", source: "Tonstakers", apyBase: 3, apyTotal: 3, tvlUsd: 5_000_000 });
+
+const report: RunReport = {
+  startedAt: "2026-01-01T09:00:00.000Z",
+  finishedAt: "2026-01-01T09:00:05.000Z",
+  sources: [
+    { id: "defillama", name: "DefiLlama", status: "ok", latencyMs: 10, poolCount: 2 },
+    { id: "euler", name: "Euler", status: "timeout", latencyMs: 15000, poolCount: 0, error: "timed out" },
+  ],
+  dedup: [],
+  unknownAssets: [],
+};
+
+const data: ChannelData = {
+  insights: {
+    averages: new Map([[usdt, 4.5]]),
+    newPools: new Set([ton]),
+    yesterday: new Map([[usdt, 4]]),
+    tvlChanges: new Map([[usdt, { change24h: -2, change7d: null }]]),
+  },
+  delisted: [{ source: "STON.fi", asset: "TON-USDT", poolMeta: null }],
+  tonTvl: 100_000_000,
+  tonTvlChange: null,
+  report,
+  generatedAt: new Date("2026-01-01T09:00:05.000Z"),
+};
+
+Deno.test("buildChannelReport describes pools with their history", () => {
+  const result = buildChannelReport(groupByCategory([usdt, ton]), data);
+
+  assertEquals(result.generatedAt, "2026-01-01T09:00:05.000Z");
+  assertEquals(result.tonTvl, { usd: 100_000_000, change: null, changePercent: null });
+  assertEquals(result.top, [usdt.id, ton.id]);
+  assertEquals(result.delisted, data.delisted);
+  assertEquals(result.failedSources, [{ id: "euler", name: "Euler", status: "timeout", error: "timed out" }]);
+
+  const stables = result.categories.find(c => c.id === "STABLE")!;
+  assertEquals(stables.pools, [{
+    id: usdt.id,
+    chain: "TON",
+    assetType: "STABLE",
+    protocol: "EVAA",
+    asset: "USDT",
+    poolMeta: null,
+    url: "https://t.me/EvaaAppBot",
+    apy: { total: 5, base: 5, reward: null, avg7d: 4.5, yesterday: 4 },
+    tvl: { usd: 1_000_000, estimated: false, change24h: -2, change7d: null },
+    isNew: false,
+  }]);
+  assertEquals(result.categories.find(c => c.id === "TON")!.pools[0].isNew, true);
+});
+
+Deno.test("renderChannelOutput renders every format from the same data", () => {
+  const yields = groupByCategory([usdt, ton]);
+
+  const json = JSON.parse(renderChannelOutput(yields, data, "json"));
+  assertEquals(json.top, [usdt.id, ton.id]);
+
+  assertStringIncludes(renderChannelOutput(yields, data, "html"), "<b>TON Yields Daily</b>");
+  assertStringIncludes(renderChannelOutput(yields, data, "md"), "*TON Yields Daily*");
+  assertStringIncludes(renderChannelOutput(yields, data, "text"), "TON Yields Daily\n");
+});
+
+Deno.test("isOutputFormat accepts only supported formats", () => {
+  assertEquals(["json", "md", "text", "html", "pdf", ""].map(isOutputFormat), [true, true, true, true, false, false]);
+});
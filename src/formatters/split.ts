@@ -0,0 +1,97 @@
+/**
+ * Telegram Message Splitting
+ * Packs HTML blocks into messages that fit Telegram's length limit
+ *
+ * Telegram counts the limit on the text left after parsing HTML entities
+ * (tags removed, &amp; etc. decoded), in UTF-16 code units - the same unit
+ * as JavaScript's string length.
+ */
+
+/** Maximum length of a Telegram message text after entity parsing */
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+/** Separator between blocks in the same message (one blank line) */
+const BLOCK_SEPARATOR = "\n\n";
+
+const BLOCKQUOTE_OPEN = /<blockquote(?:\s[^>]*)?>/g;
+const BLOCKQUOTE_CLOSE = "</blockquote>";
+
+/**
+ * Length of an HTML message as Telegram counts it
+ * e.g., "<b>A &amp; B</b>" -> 5
+ */
+export function renderedLength(html: string): number {
+  return html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(?:lt|gt|amp|quot|#\d+|#x[0-9a-f]+);/gi, "_")
+    .length;
+}
+
+/**
+ * Blockquote opening tag still open at the end of a line, given the one open before it
+ * (our formatters never nest blockquotes)
+ */
+function openBlockquoteAfter(line: string, open: string | null): string | null {
+  const lastOpen = [...line.matchAll(BLOCKQUOTE_OPEN)].pop();
+  const lastClose = line.lastIndexOf(BLOCKQUOTE_CLOSE);
+  if (lastOpen && lastOpen.index! > lastClose) {
+    return lastOpen[0];
+  }
+  return lastClose >= 0 ? null : open;
+}
+
+/**
+ * Split one oversized block at line boundaries
+ * A blockquote cut in two is closed at the end of one piece and reopened
+ * (with the same tag, e.g. <blockquote expandable>) at the start of the next.
+ */
+function splitBlock(block: string, limit: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  let open: string | null = null;
+
+  for (const line of block.split("\n")) {
+    const candidate = current ? `${current}\n${line}` : line;
+
+    // Tags don't count towards the limit, so closing/reopening is free
+    if (current && renderedLength(candidate) > limit) {
+      // Close the blockquote left open by the lines so far, reopen it in the next piece
+      pieces.push(open ? current + BLOCKQUOTE_CLOSE : current);
+      current = open ? open + line : line;
+    } else {
+      current = candidate;
+    }
+    open = openBlockquoteAfter(line, open);
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Pack blocks (sections) into as few messages as possible
+ * Blocks are only split when a single block is longer than the limit on its own.
+ * When everything fits, the result is one message equal to blocks joined by a blank line.
+ */
+export function splitMessage(blocks: string[], limit: number = TELEGRAM_MESSAGE_LIMIT): string[] {
+  const messages: string[] = [];
+  let current = "";
+
+  const pieces = blocks.flatMap(block => renderedLength(block) > limit ? splitBlock(block, limit) : [block]);
+  for (const piece of pieces) {
+    const candidate = current ? current + BLOCK_SEPARATOR + piece : piece;
+    if (current && renderedLength(candidate) > limit) {
+      messages.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    messages.push(current);
+  }
+  return messages;
+}
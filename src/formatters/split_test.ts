@@ -0,0 +1,63 @@
+import { assert, assertEquals } from "std/assert/mod.ts";
+import { renderedLength, splitMessage, TELEGRAM_MESSAGE_LIMIT } from "./split.ts";
+
+/**
+ * A section of `lines` rows, each `width` characters of text
+ */
+function createSection(title: string, lines: number, width: number): string {
+  const rows = Array.from({ length: lines }, (_, i) => `${i}`.padEnd(width, "x"));
+  return [`<b>${title}</b>`, ...rows].join("\n");
+}
+
+Deno.test("renderedLength counts text after tags and entities are parsed", () => {
+  assertEquals(renderedLength("<b>A &amp; B</b>"), 5);
+  assertEquals(renderedLength(`<a href="https://x.io/?a=1&amp;b=2">link</a> &lt;3 &#36;`), 9);
+});
+
+Deno.test("sections that fit stay in one message joined by a blank line", () => {
+  assertEquals(splitMessage(["<b>TON</b>\na", "<b>STABLE</b>\nb"]), ["<b>TON</b>\na\n\n<b>STABLE</b>\nb"]);
+});
+
+Deno.test("sections move to the next message only at the limit", () => {
+  const first = "a".repeat(50);
+  const second = "b".repeat(48);
+
+  // 50 + blank line + 48 is exactly the limit
+  assertEquals(splitMessage([first, second], 100), [`${first}\n\n${second}`]);
+  // One character more and the second section starts a new message, whole
+  assertEquals(splitMessage([first, second + "b"], 100), [first, second + "b"]);
+  // Tags don't count
+  assertEquals(splitMessage([`<b>${first}</b>`, second], 100).length, 1);
+});
+
+Deno.test("a section over 4096 characters is split at line boundaries", () => {
+  const section = createSection("STABLE", 100, 60);
+  assert(renderedLength(section) > TELEGRAM_MESSAGE_LIMIT);
+
+  const messages = splitMessage(["<b>TON</b>\nshort", section, "<b>BTC</b>\nshort"]);
+
+  // TON stays alone (the first piece doesn't fit next to it); BTC joins the last piece
+  assertEquals(messages.length, 3);
+  assertEquals(messages[0], "<b>TON</b>\nshort");
+  assert(messages[2].endsWith("\n\n<b>BTC</b>\nshort"));
+  for (const message of messages) {
+    assert(renderedLength(message) <= TELEGRAM_MESSAGE_LIMIT);
+  }
+  // No line is cut and none is lost
+  const lines = messages.join("\n").split("\n").filter(line => line.length > 0);
+  assertEquals(lines, ["<b>TON</b>", "short", ...section.split("\n"), "<b>BTC</b>", "short"]);
+});
+
+Deno.test("a blockquote cut by a split is closed and reopened with the same tag", () => {
+  const rows = createSection("STABLE", 20, 10).split("\n");
+  const section = [rows[0], `<blockquote expandable>${rows[1]}`, ...rows.slice(2, -1), `${rows.at(-1)}</blockquote>`].join("\n");
+
+  const messages = splitMessage([section], 120);
+
+  assert(messages.length > 1);
+  assert(messages[0].endsWith("</blockquote>"));
+  for (const message of messages.slice(1)) {
+    assert(message.startsWith("<blockquote expandable>"));
+    assert(message.endsWith("</blockquote>"));
+  }
+});
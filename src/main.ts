@@ -1,8 +1,31 @@
 import { config, validateConfig } from "./config.ts";
 import { createBot, sendToChannel } from "./bot.ts";
-import { postDailyYields, triggerManualPost } from "./scheduler.ts";
-import { fetchTonYields } from "./services/defillama.ts";
-import { formatChannelMessage, formatTestMessage } from "./formatters/message.ts";
+import { handleApprovalTask, type PostOptions, postDailyYields, triggerManualPost } from "./scheduler.ts";
+import { CLI_USAGE, type CliCommand, parseCliArgs, type RunOptions } from "./cli.ts";
+import { fetchTonYields } from "./services/aggregator.ts";
+import { buildChannelDocument, formatTestMessage, loadChannelData } from "./formatters/message.ts";
+import { renderDocumentHtml, renderDocumentText } from "./formatters/document.ts";
+import { renderedLength, splitMessage } from "./formatters/split.ts";
+import { type OutputFormat, renderChannelOutput } from "./formatters/report.ts";
+import { getLatestAcceptedRunReport, getLatestRunReport, logRunReport } from "./services/run_reports.ts";
+import { checkRunSanity } from "./services/sanity.ts";
+import { flattenYields, getCategories, getCategoryTitle } from "./services/categories.ts";
+import { YIELD_SOURCES } from "./services/sources.ts";
+import { saveAllApySnapshots } from "./services/apy_history.ts";
+import { saveTvlSnapshot } from "./services/tvl_history.ts";
+import { fetchTonTVL, formatTVL } from "./services/tvl.ts";
+import { getDateDaysAgo, setNow } from "./services/clock.ts";
+import { getKv } from "./services/kv.ts";
+import { isApprovalTask } from "./services/approvals.ts";
+import { deleteWebhook, setWebhook, startServer } from "./server.ts";
+import { isFixtureMode, useFixtures } from "./services/fixtures.ts";
+import {
+  type DateRange,
+  exportHistory,
+  importHistory,
+  readHistoryExport,
+  writeHistoryExport,
+} from "./services/history_export.ts";
 
 
 // ---------------------------------------------------------------------------
@@ -15,7 +38,7 @@ Deno.cron("daily-yield-post", "0 9 * * *", async () => {
   try {
     validateConfig();
     const bot = createBot();
-    await postDailyYields(bot);
+    await postDailyYields(bot, { approval: config.requireApproval });
   } catch (error) {
     console.error("Cron job failed:", error);
   }
@@ -25,6 +48,22 @@ Deno.cron("daily-yield-post", "0 9 * * *", async () => {
  * Main entry point for the TON Yields Bot
  */
 async function main(): Promise<void> {
+  const command = parseCliArgs(Deno.args);
+
+  if (command.command === "help") {
+    if (command.error) {
+      console.error(command.error);
+    }
+    console.log(CLI_USAGE);
+    Deno.exit(command.error ? 1 : 0);
+  }
+
+  // One-shot commands exit explicitly: the cron job registered above would keep the process alive
+  if (await runLocalCommand(command)) {
+    Deno.exit(0);
+  }
+
+  setupFixtures();
   console.log("🚀 Starting TON Yields Bot...");
   
   // Check if we're in test mode (no env vars)
@@ -33,7 +72,7 @@ async function main(): Promise<void> {
   if (isTestMode) {
     console.log("\n⚠️  Running in TEST MODE (no Telegram credentials)\n");
     await runTestMode();
-    return;
+    Deno.exit(0);
   }
   
   // Validate configuration
@@ -49,29 +88,91 @@ async function main(): Promise<void> {
   // Create bot instance
   const bot = createBot();
   
-  // Check for command line arguments
-  const args = Deno.args;
-  
-  if (args.includes("--post-now")) {
+  if (command.command === "post") {
     // Immediate post mode
+    applyRunOptions(command.run);
     console.log("Posting yields now...");
-    await triggerManualPost(bot);
+    // Same approval rule as the cron job, so the GitHub workflow can't bypass it
+    await triggerManualPost(bot, { ...toPostOptions(command.run), approval: config.requireApproval });
     console.log("Done!");
-    return;
+    Deno.exit(0);
   }
   
-  if (args.includes("--test")) {
+  if (command.command === "test-message") {
     // Send test message
     console.log("Sending test message...");
     await sendToChannel(bot, formatTestMessage());
     console.log("Test message sent!");
-    return;
+    Deno.exit(0);
+  }
+  
+  if (command.command === "set-webhook") {
+    await setWebhook(bot);
+    Deno.exit(0);
+  }
+  
+  if (command.command === "delete-webhook") {
+    await deleteWebhook(bot);
+    Deno.exit(0);
   }
   
-  // This is a pure broadcast bot — it only sends to a channel via cron.
   // Long polling is incompatible with Deno Deploy (serverless, multiple isolates)
-  // and would cause 409 Conflict errors from Telegram. Nothing to do here.
-  console.log("Bot is ready. Waiting for cron trigger at 9:00 UTC...");
+  // and would cause 409 Conflict errors from Telegram, so commands arrive via webhook.
+  // The daily post still runs from the cron job registered above.
+  await listenForApprovalTasks();
+  startServer(bot);
+  console.log("Bot is ready. Serving webhook, waiting for cron trigger at 9:00 UTC...");
+}
+
+/**
+ * Handle approval work (auto-publish timeouts, regenerate requests) from the KV queue
+ * Only the serving process listens; Deno Deploy starts it with no arguments, so
+ * isolates woken for a queue delivery register the listener too.
+ */
+async function listenForApprovalTasks(): Promise<void> {
+  const kv = await getKv();
+  kv.listenQueue(async (message: unknown) => {
+    if (!isApprovalTask(message)) {
+      console.warn("Ignoring unknown queue message:", message);
+      return;
+    }
+    try {
+      const bot = createBot();
+      await handleApprovalTask(bot, message);
+    } catch (error) {
+      // Rethrow so the queue delivers the task again
+      console.error("Queue task failed:", error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Run the commands that don't need Telegram (preview, backfill, sources, export, import)
+ * Returns false for anything else.
+ */
+async function runLocalCommand(command: CliCommand): Promise<boolean> {
+  switch (command.command) {
+    case "preview":
+      // Preview prints the daily post in the requested format
+      await runPreview(command.format, command.run);
+      return true;
+    case "backfill":
+      await runBackfill(command.run);
+      return true;
+    case "sources":
+      await runSources();
+      return true;
+    case "export":
+      // History export/import only needs KV
+      await runExport(command.path, command.range);
+      return true;
+    case "import":
+      await runImport(command.path);
+      return true;
+    default:
+      return false;
+  }
 }
 
 /**
@@ -81,45 +182,196 @@ async function runTestMode(): Promise<void> {
   console.log("Fetching TON yields from DefiLlama + Merkl (TAC)...\n");
   
   try {
-    const yields = await fetchTonYields();
+    const { yields, report } = await fetchTonYields();
+    
+    logRunReport(report);
     
     console.log("=== RAW DATA ===\n");
     
-    if (yields.TON.length > 0) {
-      console.log("TON Assets:");
-      yields.TON.slice(0, 5).forEach(y => {
+    for (const category of getCategories()) {
+      const categoryYields = yields[category.id];
+      if (categoryYields.length === 0) continue;
+      console.log(`${getCategoryTitle(category)}:`);
+      categoryYields.slice(0, 5).forEach(y => {
         console.log(`  - ${y.source} ${y.asset}: ${y.apyTotal.toFixed(2)}% (TVL: $${(y.tvlUsd/1e6).toFixed(2)}M)`);
       });
       console.log();
     }
     
-    if (yields.STABLE.length > 0) {
-      console.log("Stablecoins:");
-      yields.STABLE.slice(0, 5).forEach(y => {
-        console.log(`  - ${y.source} ${y.asset}: ${y.apyTotal.toFixed(2)}% (TVL: $${(y.tvlUsd/1e6).toFixed(2)}M)`);
-      });
-      console.log();
+    console.log("\n=== FORMATTED MESSAGE ===\n");
+    const data = await loadChannelData(yields, report);
+    const document = buildChannelDocument(yields, data);
+    const messages = splitMessage(renderDocumentHtml(document));
+    if (messages.length > 1) {
+      const lengths = messages.map(message => renderedLength(message)).join(", ");
+      console.log(`(posted as ${messages.length} messages: ${lengths} chars)\n`);
     }
+    console.log(renderDocumentText(document).join("\n\n"));
     
-    if (yields.BTC.length > 0) {
-      console.log("Bitcoin:");
-      yields.BTC.slice(0, 5).forEach(y => {
-        console.log(`  - ${y.source} ${y.asset}: ${y.apyTotal.toFixed(2)}% (TVL: $${(y.tvlUsd/1e6).toFixed(2)}M)`);
-      });
-      console.log();
+  } catch (error) {
+    console.error("Error:", error);
+  }
+}
+
+/**
+ * Serve upstream requests from fixtures when HTTP_FIXTURES is set (record or replay)
+ */
+function setupFixtures(): void {
+  if (!config.httpFixtures) {
+    return;
+  }
+  if (!isFixtureMode(config.httpFixtures)) {
+    console.error(`Unsupported HTTP_FIXTURES "${config.httpFixtures}" (expected record or replay)`);
+    Deno.exit(1);
+  }
+  useFixtures(config.httpFixtures, config.httpFixturesDir);
+}
+
+/**
+ * Apply --fixtures and --as-of before anything is fetched
+ * --as-of keeps the current time of day, so "today" still reads as now.
+ */
+function applyRunOptions(run: RunOptions): void {
+  if (run.fixturesDir) {
+    useFixtures("replay", run.fixturesDir);
+  } else {
+    setupFixtures();
+  }
+  if (run.asOf) {
+    setNow(new Date(`${run.asOf}T${new Date().toISOString().slice(11)}`));
+    console.log(`✓ Running as of ${run.asOf}`);
+  }
+  if (!run.kvWrite) {
+    console.log("✓ KV is left untouched");
+  }
+}
+
+/**
+ * Map CLI run options onto the scheduler's post options
+ */
+function toPostOptions(run: RunOptions): PostOptions {
+  return { sourceIds: run.sourceIds, categoryId: run.categoryId, kvWrite: run.kvWrite };
+}
+
+/**
+ * Preview - fetch yields and print the daily post to stdout in the given format
+ * Progress logs go to stderr so the output can be piped (e.g. `deno task preview --format json | jq`).
+ */
+async function runPreview(format: OutputFormat, run: RunOptions): Promise<void> {
+  const print = console.log;
+  console.log = console.error;
+  applyRunOptions(run);
+  
+  try {
+    const { yields, report } = await fetchTonYields(toPostOptions(run));
+    logRunReport(report);
+    
+    // Read-only: comparisons use stored history, nothing from this run is saved
+    const data = await loadChannelData(yields, report, { kvWrite: false });
+    
+    // Show what the sanity guard would say about posting this run (narrowed runs skip it)
+    if (!run.sourceIds && !run.categoryId) {
+      const issues = checkRunSanity({ yields, report, tonTvl: data.tonTvl }, await getLatestAcceptedRunReport());
+      issues.forEach(issue => console.warn(`⚠️ Sanity check: ${issue.message}`));
     }
     
-    console.log("\n=== FORMATTED MESSAGE ===\n");
-    const message = await formatChannelMessage(yields);
-    // Strip HTML tags for console output
-    const plainMessage = message
-      .replace(/<[^>]*>/g, "")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">");
-    console.log(plainMessage);
+    print(renderChannelOutput(yields, data, format));
+  } catch (error) {
+    console.error("Error:", error);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Backfill - record the day's APY and TON TVL snapshots without posting
+ * With --as-of the snapshots are stored under that date (live data stands in for it).
+ */
+async function runBackfill(run: RunOptions): Promise<void> {
+  applyRunOptions(run);
+  
+  try {
+    const { yields, report } = await fetchTonYields(toPostOptions(run));
+    logRunReport(report);
+    
+    const pools = flattenYields(yields);
+    const tvl = await fetchTonTVL();
+    const date = getDateDaysAgo(0);
+    if (!run.kvWrite) {
+      console.log(`Would record ${pools.length} pool snapshots and TON TVL ${formatTVL(tvl)} for ${date}`);
+      return;
+    }
     
+    await saveAllApySnapshots(pools);
+    if (tvl > 0) {
+      await saveTvlSnapshot(tvl);
+    }
+    console.log(`✓ Backfilled ${date}: ${pools.length} pool snapshots, TON TVL ${formatTVL(tvl)}`);
+  } catch (error) {
+    console.error("Backfill failed:", error);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * List registered sources with their status in the latest stored run
+ */
+async function runSources(): Promise<void> {
+  try {
+    const latest = await getLatestRunReport();
+    for (const source of YIELD_SOURCES) {
+      const state = source.enabled ? "✓" : "✗ disabled";
+      console.log(`${state} ${source.id} - ${source.name} (timeout ${source.timeoutMs / 1000}s)`);
+      const status = latest?.sources.find(s => s.id === source.id);
+      if (status) {
+        const error = status.error ? `: ${status.error}` : "";
+        console.log(`    last run: ${status.status}, ${status.poolCount} pools, ${status.latencyMs}ms${error}`);
+      }
+    }
+    if (latest) {
+      console.log(`\nLast run: ${latest.startedAt}`);
+    } else {
+      console.log("\nNo stored run yet");
+    }
   } catch (error) {
     console.error("Error:", error);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Export stored history to a JSON file (path ending in .json) or a directory of CSV files
+ */
+async function runExport(path: string, range: DateRange): Promise<void> {
+  try {
+    const data = await exportHistory(range);
+    const written = await writeHistoryExport(path, data);
+    console.log(
+      `✓ Exported ${data.poolSnapshots.length} pool snapshots, ${data.tvlSnapshots.length} TVL snapshots, ` +
+        `${data.runReports.length} run reports (${range.from} → ${range.to})`,
+    );
+    written.forEach(file => console.log(`  ${file}`));
+  } catch (error) {
+    console.error("Export failed:", error);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Import history from a JSON file or a directory of CSV files written by export
+ */
+async function runImport(path: string): Promise<void> {
+  try {
+    const summary = await importHistory(await readHistoryExport(path));
+    console.log(
+      `✓ Imported ${summary.poolSnapshots} pool snapshots, ${summary.tvlSnapshots} TVL snapshots, ` +
+        `${summary.runReports} run reports`,
+    );
+    if (summary.skipped > 0) {
+      console.log(`  Skipped ${summary.skipped} pool snapshots older than the history window`);
+    }
+  } catch (error) {
+    console.error("Import failed:", error);
+    Deno.exit(1);
   }
 }
 
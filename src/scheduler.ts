@@ -1,33 +1,118 @@
 import type { Bot } from "grammy";
 // Note: Deno.cron is registered at top level in main.ts (Deno Deploy requirement)
-import { fetchTonYields } from "./services/defillama.ts";
+import { type AggregationOptions, fetchTonYields } from "./services/aggregator.ts";
 import { formatChannelMessage } from "./formatters/message.ts";
-import { sendToChannel } from "./bot.ts";
+import { notifyAdmin, sendDraftPreview, sendToChannel } from "./bot.ts";
+import { config } from "./config.ts";
+import {
+  deleteRunReport,
+  formatUnknownAssetsNotice,
+  getLatestAcceptedRunReport,
+  logRunReport,
+  saveRunReport,
+} from "./services/run_reports.ts";
+import { evaluateAlerts } from "./services/alerts.ts";
+import { flattenYields, groupByCategory } from "./services/categories.ts";
+import { loadLatestRun, saveLatestRun } from "./services/latest_run.ts";
+import { checkRunSanity, formatSanityNotice, type SanityIssue } from "./services/sanity.ts";
+import { fetchTonTVL } from "./services/tvl.ts";
+import type { GroupedYields, RunReport } from "./types/yields.ts";
+import {
+  type ApprovalTask,
+  createDraft,
+  decideDraft,
+  enqueueApprovalTask,
+  getDraft,
+  saveDraftDelivery,
+} from "./services/approvals.ts";
+
+/**
+ * Options for a post run (the cron job uses the defaults)
+ */
+export interface PostOptions extends AggregationOptions {
+  /** Record the run in KV: snapshots, run report, latest run and alert state (default true; never for narrowed runs) */
+  kvWrite?: boolean;
+  /** Preview the post in the admin chat and wait for approval instead of posting (default false) */
+  approval?: boolean;
+  /** Start time of a stored run this one replaces (a regenerated draft); its run report is dropped */
+  replacesRun?: string;
+}
 
 /**
  * Fetch yields and post to channel
  */
-export async function postDailyYields(bot: Bot): Promise<void> {
+export async function postDailyYields(bot: Bot, options: PostOptions = {}): Promise<void> {
   console.log("Starting daily yields post...");
+  // A run narrowed to some sources or one category isn't the day's run: recording it
+  // would replace the API's pools, mark every other pool delisted and become the
+  // next sanity baseline, so it leaves KV alone (and skips the guard)
+  const narrowed = options.sourceIds !== undefined || options.categoryId !== undefined;
+  const kvWrite = (options.kvWrite ?? true) && !narrowed;
   
   try {
-    // Fetch yields from DefiLlama
-    const yields = await fetchTonYields();
+    // Fetch yields from all sources
+    const result = await fetchTonYields(options);
+    const { yields, report } = result;
+    
+    logRunReport(report);
+    
+    // Compare with the last accepted run before anything is stored
+    const issues = narrowed
+      ? []
+      : checkRunSanity({ yields, report, tonTvl: await fetchTonTVL() }, await getLatestAcceptedRunReport());
+    if (issues.length > 0) {
+      report.sanityIssues = issues.map(issue => issue.message);
+    }
+    
+    if (kvWrite) {
+      // Record per-source health for this run (instead of the run it regenerates)
+      if (options.replacesRun) {
+        await deleteRunReport(options.replacesRun);
+      }
+      await saveRunReport(report);
+      
+      // Keep the pools for the HTTP API (not from a run that looks broken)
+      if (issues.length === 0) {
+        await saveLatestRun(result);
+      }
+    }
+    
+    // Ask the admin to register tokens that couldn't be classified
+    const unknownNotice = formatUnknownAssetsNotice(report);
+    if (unknownNotice) {
+      await notifyAdmin(bot, unknownNotice);
+    }
+    
+    if (issues.length > 0) {
+      await holdPost(bot, yields, report, issues, kvWrite);
+      return;
+    }
     
     // Check if we have any data
-    const totalYields = yields.TON.length + yields.STABLE.length + yields.BTC.length;
+    const totalYields = flattenYields(yields).length;
     if (totalYields === 0) {
       console.log("No yields found, skipping post");
       return;
     }
     
     // Format the message
-    const message = await formatChannelMessage(yields);
+    const messages = await formatChannelMessage(yields, report, { kvWrite });
     
-    // Send to channel
-    await sendToChannel(bot, message);
+    if (options.approval) {
+      // Hold the post until an admin approves it (or the timeout passes);
+      // alerts go out once it's published
+      await requestApproval(bot, messages, kvWrite ? report.startedAt : undefined);
+      return;
+    }
     
+    // Send to channel
+    await sendToChannel(bot, messages);
     console.log(`Daily yields posted successfully (${totalYields} opportunities)`);
+    
+    // Alert state lives in KV, so alerts only fire for recorded runs
+    if (kvWrite) {
+      await sendAlerts(bot, yields);
+    }
   } catch (error) {
     console.error("Failed to post daily yields:", error);
     throw error;
@@ -37,7 +122,112 @@ export async function postDailyYields(bot: Bot): Promise<void> {
 /**
  * Manually trigger a yields post (for testing)
  */
-export async function triggerManualPost(bot: Bot): Promise<void> {
+export async function triggerManualPost(bot: Bot, options: PostOptions = {}): Promise<void> {
   console.log("Manual post triggered");
-  await postDailyYields(bot);
+  await postDailyYields(bot, options);
+}
+
+/**
+ * Notify users whose alert rules fired (never fails the post)
+ */
+async function sendAlerts(bot: Bot, yields: GroupedYields): Promise<void> {
+  try {
+    await evaluateAlerts(yields, async (chatId, text) => {
+      await bot.api.sendMessage(chatId, text);
+    });
+  } catch (error) {
+    console.error("Failed to evaluate alerts:", error);
+  }
+}
+
+/**
+ * Keep a run that failed the sanity guard off the channel and tell the admins
+ * With an admin chat the post goes out as a draft with no timeout, so an admin
+ * can still publish it; nothing from the run is saved to history or alerts.
+ */
+async function holdPost(
+  bot: Bot,
+  yields: GroupedYields,
+  report: RunReport,
+  issues: SanityIssue[],
+  kvWrite: boolean,
+): Promise<void> {
+  console.warn(`Daily post held: ${issues.map(issue => issue.message).join("; ")}`);
+  let draftSent = false;
+  if (config.telegramAdminChatId && flattenYields(yields).length > 0) {
+    try {
+      const messages = await formatChannelMessage(yields, report, { kvWrite: false });
+      await sendDraftPreview(bot, await createDraft(messages, 0, kvWrite ? report.startedAt : undefined));
+      draftSent = true;
+    } catch (error) {
+      console.error("Failed to send held post for review:", error);
+    }
+  }
+  await notifyAdmin(bot, formatSanityNotice(issues, draftSent));
+}
+
+/**
+ * Store the post as a draft, preview it in the admin chat and schedule the auto-publish
+ */
+async function requestApproval(bot: Bot, messages: string[], recordedRun: string | undefined): Promise<void> {
+  const draft = await createDraft(messages, config.approvalTimeoutMinutes, recordedRun);
+  await sendDraftPreview(bot, draft);
+  if (draft.publishAt) {
+    const delayMs = Date.parse(draft.publishAt) - Date.parse(draft.createdAt);
+    await enqueueApprovalTask({ kind: "approval-timeout", draftId: draft.id }, delayMs);
+  }
+}
+
+/**
+ * Send a published draft to the channel, resuming after the messages already
+ * delivered, then send the run's alerts
+ * Alerts only go out when the draft's run is still the stored latest run
+ * (held runs never are).
+ */
+async function publishDraft(bot: Bot, draftId: string): Promise<void> {
+  const draft = await getDraft(draftId);
+  if (!draft || draft.status !== "published" || draft.delivery.sent >= draft.messages.length) {
+    return;
+  }
+
+  await sendToChannel(bot, draft.messages, draft.delivery, delivery => saveDraftDelivery(draft.id, delivery));
+  console.log(`Draft ${draft.id} published (${draft.messages.length} part(s))`);
+
+  const latest = draft.recordedRun ? await loadLatestRun() : null;
+  if (latest && latest.report.startedAt === draft.recordedRun) {
+    await sendAlerts(bot, groupByCategory(latest.pools));
+  }
+  if (draft.decidedBy === null) {
+    await notifyAdmin(bot, `⏰ No decision on draft ${draft.id} within ${config.approvalTimeoutMinutes} min - published automatically`);
+  }
+}
+
+/**
+ * Run approval work delivered by the KV queue
+ *   approval-timeout    - publish the draft if nobody decided on it yet
+ *   approval-publish    - send a published draft to the channel (resumes after a failure)
+ *   approval-regenerate - fetch everything again and send a fresh draft in place of the old one
+ * A handler that throws is redelivered by the queue.
+ */
+export async function handleApprovalTask(bot: Bot, task: ApprovalTask): Promise<void> {
+  switch (task.kind) {
+    case "approval-timeout":
+      // Queues the publish unless an admin decided first
+      await decideDraft(task.draftId, "published", null);
+      return;
+    case "approval-publish":
+      await publishDraft(bot, task.draftId);
+      return;
+    case "approval-regenerate": {
+      console.log(`Regenerating draft ${task.draftId}`);
+      // Record the new run only if the old one was, and in its place
+      const draft = await getDraft(task.draftId);
+      await postDailyYields(bot, {
+        approval: true,
+        kvWrite: draft?.recordedRun !== undefined,
+        replacesRun: draft?.recordedRun,
+      });
+      return;
+    }
+  }
 }
@@ -0,0 +1,193 @@
+import { assertEquals, assertRejects } from "std/assert/mod.ts";
+import { Bot } from "grammy";
+import { handleApprovalTask, postDailyYields } from "./scheduler.ts";
+import { config } from "./config.ts";
+import { createDraft, decideDraft, getDraft, type PostDraft } from "./services/approvals.ts";
+import { addAlert } from "./services/alerts.ts";
+import { createReplayTransport } from "./services/fixtures.ts";
+import { setKv } from "./services/kv.ts";
+import {
+  getLatestAcceptedRunReport,
+  getLatestRunReport,
+  listRunReports,
+  saveRunReport,
+} from "./services/run_reports.ts";
+import { liveTransport, setTransport } from "./services/transport.ts";
+
+const FIXTURES_DIR = new URL("../fixtures", import.meta.url).pathname;
+
+/**
+ * Bot whose API calls are recorded instead of sent
+ * Set `failAt` to make the sendMessage after that many sent messages fail once.
+ */
+function createRecordingBot() {
+  const bot = new Bot("123456:TEST", { botInfo: {} as Bot["botInfo"] });
+  const sent: string[] = [];
+  const replies: Array<number | undefined> = [];
+  const chats: Array<number | string> = [];
+  const state: { failAt: number | null } = { failAt: null };
+  bot.api.config.use((_prev, method, payload) => {
+    if (method === "sendMessage") {
+      if (state.failAt === sent.length) {
+        state.failAt = null;
+        throw new Error("Telegram is down");
+      }
+      const message = payload as {
+        chat_id: number | string;
+        text: string;
+        reply_parameters?: { message_id: number };
+      };
+      sent.push(message.text);
+      chats.push(message.chat_id);
+      replies.push(message.reply_parameters?.message_id);
+    }
+    return Promise.resolve({ ok: true, result: { message_id: 100 + sent.length } } as never);
+  });
+  return { bot, sent, replies, chats, state };
+}
+
+Deno.test("the timeout publishes only drafts nobody decided on", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    const { bot, sent } = createRecordingBot();
+    const undecided = await createDraft(["undecided"], 60);
+    const skipped = await createDraft(["skipped"], 60);
+    await decideDraft(skipped.id, "skipped", { id: 7, name: "@bob" });
+
+    await handleApprovalTask(bot, { kind: "approval-timeout", draftId: undecided.id });
+    await handleApprovalTask(bot, { kind: "approval-timeout", draftId: skipped.id });
+    assertEquals((await getDraft(undecided.id))?.decidedBy, null);
+    assertEquals((await getDraft(skipped.id))?.status, "skipped");
+
+    // Publishing is the queued follow-up task; a skipped draft is never sent
+    await handleApprovalTask(bot, { kind: "approval-publish", draftId: undecided.id });
+    await handleApprovalTask(bot, { kind: "approval-publish", draftId: skipped.id });
+    assertEquals(sent, ["undecided"]);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("a publish that fails halfway resumes without duplicates", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    const { bot, sent, replies, state } = createRecordingBot();
+    const draft = await createDraft(["part 1", "part 2", "part 3"], 60);
+    await decideDraft(draft.id, "published", { id: 42, name: "@alice" });
+
+    const task = { kind: "approval-publish", draftId: draft.id } as const;
+    // Part 2 fails; the queue redelivers the task
+    state.failAt = 1;
+    await assertRejects(() => handleApprovalTask(bot, task), Error, "Telegram is down");
+    assertEquals((await getDraft(draft.id))?.delivery, { sent: 1, firstMessageId: 101 });
+
+    await handleApprovalTask(bot, task);
+    await handleApprovalTask(bot, task);
+    assertEquals(sent, ["part 1", "part 2", "part 3"]);
+    // The resumed parts still reply to the first one
+    assertEquals(replies, [undefined, 101, 101]);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("alerts go out when a draft is published, not when it's created", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  setTransport(createReplayTransport(FIXTURES_DIR));
+  // config is read-only to the app; tests swap in an admin chat
+  Object.assign(config, { telegramAdminChatId: "-1001" });
+  try {
+    const { bot, chats } = createRecordingBot();
+    await addAlert({ chatId: 99, target: "USDT", metric: "apy", operator: ">", threshold: 1 });
+
+    await postDailyYields(bot, { approval: true });
+    const [draft] = (await Array.fromAsync(kv.list<PostDraft>({ prefix: ["approvals"] }))).map(entry => entry.value);
+    assertEquals(draft.recordedRun !== undefined, true);
+    assertEquals(chats.includes(99), false);
+
+    await decideDraft(draft.id, "published", { id: 42, name: "@alice" });
+    await handleApprovalTask(bot, { kind: "approval-publish", draftId: draft.id });
+    assertEquals(chats.includes(99), true);
+  } finally {
+    Object.assign(config, { telegramAdminChatId: "" });
+    setTransport(liveTransport);
+    kv.close();
+  }
+});
+
+Deno.test("regenerating replaces the earlier run instead of recording a second one", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  setTransport(createReplayTransport(FIXTURES_DIR));
+  // config is read-only to the app; tests swap in an admin chat
+  Object.assign(config, { telegramAdminChatId: "-1001" });
+  try {
+    const { bot } = createRecordingBot();
+    await postDailyYields(bot, { approval: true });
+    const [draft] = (await Array.fromAsync(kv.list<PostDraft>({ prefix: ["approvals"] }))).map(entry => entry.value);
+
+    await decideDraft(draft.id, "regenerated", { id: 42, name: "@alice" });
+    await handleApprovalTask(bot, { kind: "approval-regenerate", draftId: draft.id });
+
+    const reports = await listRunReports();
+    assertEquals(reports.length, 1);
+    assertEquals(reports[0].startedAt !== draft.recordedRun, true);
+  } finally {
+    Object.assign(config, { telegramAdminChatId: "" });
+    setTransport(liveTransport);
+    kv.close();
+  }
+});
+
+Deno.test("a run that fails the sanity guard is held, not posted", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  setTransport(createReplayTransport(FIXTURES_DIR));
+  try {
+    const { bot, sent } = createRecordingBot();
+    // Yesterday Swap Coffee had far more pools and there were BTC pools
+    await saveRunReport({
+      startedAt: "2026-10-18T09:00:00.000Z",
+      finishedAt: "2026-10-18T09:00:04.000Z",
+      sources: [{ id: "swapcoffee", name: "Swap Coffee", status: "ok", latencyMs: 900, poolCount: 40 }],
+      dedup: [],
+      unknownAssets: [],
+      categoryCounts: { TON: 3, STABLE: 6, TON_USDT: 2, BTC: 2, ETH: 0, GOLD: 0 },
+    });
+
+    await postDailyYields(bot);
+
+    assertEquals(sent, []);
+    assertEquals((await getLatestRunReport())?.sanityIssues, [
+      "BTC is empty (had 2 pools)",
+      "Swap Coffee returned 2 pools (had 40, ok)",
+    ]);
+    // The held run isn't the baseline for the next one
+    assertEquals((await getLatestAcceptedRunReport())?.startedAt, "2026-10-18T09:00:00.000Z");
+  } finally {
+    setTransport(liveTransport);
+    kv.close();
+  }
+});
+
+Deno.test("a run narrowed to some sources posts without touching KV", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  setTransport(createReplayTransport(FIXTURES_DIR));
+  try {
+    const { bot, sent } = createRecordingBot();
+
+    await postDailyYields(bot, { sourceIds: ["merkl"] });
+
+    assertEquals(sent.length > 0, true);
+    // Only the one-time storage migration marker may be written
+    const keys = (await Array.fromAsync(kv.list({ prefix: [] }))).map(entry => entry.key[0]);
+    assertEquals(keys.filter(key => key !== "migrations"), []);
+  } finally {
+    setTransport(liveTransport);
+    kv.close();
+  }
+});
@@ -0,0 +1,96 @@
+/**
+ * HTTP Server (webhook mode)
+ * Receives Telegram updates via webhook so bot commands work on Deno Deploy,
+ * where long polling conflicts across isolates.
+ *
+ * Routes:
+ *   POST /webhook  - Telegram updates (verified by secret token)
+ *   GET  /healthz  - Health check
+ *   GET  /api/...  - Read-only JSON API (see api.ts)
+ */
+
+import { type Bot, webhookCallback } from "grammy";
+import { config, validateWebhookConfig } from "./config.ts";
+import { handleApiRequest, isApiPath } from "./api.ts";
+
+/**
+ * How long an update may run before the webhook answers Telegram anyway
+ * The handler keeps running afterwards; answering late would make Telegram
+ * redeliver the update and the command would run (and reply) twice.
+ */
+const WEBHOOK_TIMEOUT_MS = 9_000;
+
+/**
+ * Create the request handler for all HTTP routes
+ */
+export function createHttpHandler(bot: Bot): (request: Request) => Promise<Response> {
+  // Only accept updates when a secret is configured; otherwise anyone could post fake updates
+  const handleUpdate = config.telegramWebhookSecret
+    ? webhookCallback(bot, "std/http", {
+      secretToken: config.telegramWebhookSecret,
+      onTimeout: "return",
+      timeoutMilliseconds: WEBHOOK_TIMEOUT_MS,
+    })
+    : null;
+
+  if (!handleUpdate) {
+    console.warn("TELEGRAM_WEBHOOK_SECRET not set - webhook route disabled");
+  }
+
+  return async (request: Request): Promise<Response> => {
+    const { pathname } = new URL(request.url);
+
+    if (pathname === "/healthz" && request.method === "GET") {
+      return Response.json({ status: "ok", time: new Date().toISOString() });
+    }
+
+    if (isApiPath(pathname)) {
+      return await handleApiRequest(request);
+    }
+
+    if (pathname === config.webhookPath && request.method === "POST" && handleUpdate) {
+      // Reject before grammY reads the body (it parses it eagerly and would leave
+      // a rejected promise behind for malformed requests)
+      if (request.headers.get("X-Telegram-Bot-Api-Secret-Token") !== config.telegramWebhookSecret) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+      try {
+        return await handleUpdate(request);
+      } catch (error) {
+        console.error("Failed to handle webhook update:", error);
+        return new Response("Internal Server Error", { status: 500 });
+      }
+    }
+
+    return new Response("Not Found", { status: 404 });
+  };
+}
+
+/**
+ * Start the HTTP server
+ */
+export function startServer(bot: Bot): Deno.HttpServer {
+  return Deno.serve({ port: config.port }, createHttpHandler(bot));
+}
+
+/**
+ * Register this deployment's webhook with Telegram
+ */
+export async function setWebhook(bot: Bot): Promise<void> {
+  validateWebhookConfig();
+  const url = new URL(config.webhookPath, config.webhookUrl).toString();
+
+  await bot.api.setWebhook(url, {
+    secret_token: config.telegramWebhookSecret,
+    allowed_updates: ["message", "callback_query"],
+  });
+  console.log(`✓ Webhook registered: ${url}`);
+}
+
+/**
+ * Remove the webhook (e.g. before switching back to local polling)
+ */
+export async function deleteWebhook(bot: Bot): Promise<void> {
+  await bot.api.deleteWebhook();
+  console.log("✓ Webhook removed");
+}
@@ -0,0 +1,234 @@
+/**
+ * Yield Aggregator
+ * Runs every enabled yield source from the registry and merges the results
+ * into yields grouped by category (see config.categories)
+ */
+
+import type {
+  AggregationResult,
+  GroupedYields,
+  OrganizedYields,
+  ProtocolGroup,
+  SourceReport,
+  YieldOpportunity,
+  YieldSource,
+} from "../types/yields.ts";
+import { config } from "../config.ts";
+import { findSource, getEnabledSources } from "./sources.ts";
+import { deduplicateYields } from "./dedup.ts";
+import { flattenYields, getCategories, groupByCategory } from "./categories.ts";
+
+/**
+ * Narrows an aggregation run (CLI --only / --category)
+ */
+export interface AggregationOptions {
+  /** Source IDs to run instead of every enabled source (disabled sources can be picked too) */
+  sourceIds?: string[];
+  /** Category ID to keep; every other category comes back empty */
+  categoryId?: string;
+}
+
+/**
+ * Sort pools by TVL (highest first)
+ */
+function sortByTvl(pools: YieldOpportunity[]): YieldOpportunity[] {
+  return [...pools].sort((a, b) => b.tvlUsd - a.tvlUsd);
+}
+
+/**
+ * Sort pools by APY (highest first)
+ */
+function sortByApy(pools: YieldOpportunity[]): YieldOpportunity[] {
+  return [...pools].sort((a, b) => b.apyTotal - a.apyTotal);
+}
+
+/**
+ * Group one category's yields by protocol
+ * Pools are sorted by TVL within a group, groups by their total TVL
+ */
+export function groupByProtocol(yields: YieldOpportunity[]): ProtocolGroup[] {
+  const protocolMap = new Map<string, YieldOpportunity[]>();
+
+  for (const yield_ of yields) {
+    const existing = protocolMap.get(yield_.source) || [];
+    existing.push(yield_);
+    protocolMap.set(yield_.source, existing);
+  }
+
+  // Convert to array
+  const groups: ProtocolGroup[] = [];
+  for (const [protocol, protocolYields] of protocolMap) {
+    groups.push({
+      protocol,
+      protocolUrl: protocolYields[0].sourceUrl,
+      yields: sortByTvl(protocolYields),
+    });
+  }
+
+  // Sort protocol groups by total TVL
+  groups.sort((a, b) => {
+    const tvlA = a.yields.reduce((sum, y) => sum + y.tvlUsd, 0);
+    const tvlB = b.yields.reduce((sum, y) => sum + y.tvlUsd, 0);
+    return tvlB - tvlA;
+  });
+
+  return groups;
+}
+
+/**
+ * Organize yields by category, then by protocol
+ */
+function organizeYields(grouped: GroupedYields): OrganizedYields {
+  return Object.fromEntries(
+    Object.entries(grouped).map(([categoryId, pools]) => [categoryId, groupByProtocol(pools)]),
+  );
+}
+
+/**
+ * Get top N yields by APY across all categories
+ * Skips categories marked excludeFromTop (e.g., TON-USDT pools with IL risk)
+ */
+export function getTopYields(grouped: GroupedYields, limit: number = 5): YieldOpportunity[] {
+  const allYields = getCategories()
+    .filter(category => !category.excludeFromTop)
+    .flatMap(category => grouped[category.id] ?? []);
+  // Exclude Snap (no TON wallet interface yet)
+  const filtered = allYields.filter(y => y.source !== "Snap");
+  return sortByApy(filtered).slice(0, limit);
+}
+
+/**
+ * Error raised when a source exceeds its timeout
+ */
+class SourceTimeoutError extends Error {
+  constructor(source: YieldSource) {
+    super(`${source.name} timed out after ${source.timeoutMs}ms`);
+    this.name = "SourceTimeoutError";
+  }
+}
+
+/**
+ * Run a single source with its timeout and record how it went
+ * Failures are logged and treated as "no data" so one source can't break the post
+ */
+async function runSource(
+  source: YieldSource,
+): Promise<{ yields: YieldOpportunity[]; report: SourceReport }> {
+  const started = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new SourceTimeoutError(source)), source.timeoutMs);
+  });
+
+  try {
+    const yields = await Promise.race([source.fetch(), timeout]);
+    return {
+      yields,
+      report: {
+        id: source.id,
+        name: source.name,
+        status: yields.length > 0 ? "ok" : "empty",
+        latencyMs: Math.round(performance.now() - started),
+        poolCount: yields.length,
+      },
+    };
+  } catch (error) {
+    console.error(`Failed to fetch ${source.name} yields:`, error);
+    return {
+      yields: [],
+      report: {
+        id: source.id,
+        name: source.name,
+        status: error instanceof SourceTimeoutError ? "timeout" : "error",
+        latencyMs: Math.round(performance.now() - started),
+        poolCount: 0,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Get the sources a run should fetch
+ * Throws on unknown source IDs.
+ */
+function selectSources(sourceIds?: string[]): YieldSource[] {
+  if (!sourceIds) {
+    return getEnabledSources();
+  }
+  return sourceIds.map(id => {
+    const source = findSource(id);
+    if (!source) {
+      throw new Error(`Unknown source "${id}"`);
+    }
+    return source;
+  });
+}
+
+/**
+ * Fetch and process all TON yields from every enabled source
+ * Returns yields grouped by category along with a per-source run report
+ */
+export async function fetchTonYields(options: AggregationOptions = {}): Promise<AggregationResult> {
+  const startedAt = new Date().toISOString();
+  const sources = selectSources(options.sourceIds);
+
+  // Fetch from all sources in parallel
+  const results = await Promise.all(sources.map(source => runSource(source)));
+
+  // Resolve pools reported by more than one source
+  const { yields, decisions } = deduplicateYields(
+    results.map(result => ({ sourceId: result.report.id, yields: result.yields })),
+    config.sourcePriority,
+  );
+
+  const grouped = groupByCategory(yields);
+  if (options.categoryId) {
+    for (const category of getCategories()) {
+      if (category.id !== options.categoryId) {
+        grouped[category.id] = [];
+      }
+    }
+  }
+
+  // Tokens missing from the registry are reported instead of guessed
+  const unknownAssets = yields
+    .filter(pool => pool.assetType === "UNKNOWN")
+    .map(pool => ({ id: pool.id, protocol: pool.source, asset: pool.asset }));
+  if (unknownAssets.length > 0) {
+    console.warn(`⚠️ ${unknownAssets.length} pools skipped: token not in registry (${unknownAssets.map(a => a.asset).join(", ")})`);
+  }
+
+  const counts = getCategories().map(category => `${grouped[category.id].length} ${category.id}`);
+  console.log(`Total after merge: ${counts.join(", ")}`);
+
+  return {
+    yields: grouped,
+    report: {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      sources: results.map(result => result.report),
+      dedup: decisions,
+      unknownAssets,
+      categoryCounts: Object.fromEntries(getCategories().map(category => [category.id, grouped[category.id].length])),
+    },
+  };
+}
+
+/**
+ * Fetch yields organized by protocol within each category
+ */
+export async function fetchOrganizedYields(): Promise<OrganizedYields> {
+  const { yields } = await fetchTonYields();
+  return organizeYields(yields);
+}
+
+/**
+ * Fetch yields and return as flat array (for testing/debugging)
+ */
+export async function fetchTonYieldsFlat(): Promise<YieldOpportunity[]> {
+  const { yields: grouped } = await fetchTonYields();
+  return flattenYields(grouped);
+}
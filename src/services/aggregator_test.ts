@@ -0,0 +1,68 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "std/assert/mod.ts";
+import { fetchTonYields } from "./aggregator.ts";
+import { createReplayTransport } from "./fixtures.ts";
+import { setKv } from "./kv.ts";
+import { liveTransport, setTransport } from "./transport.ts";
+import { formatChannelMessage } from "../formatters/message.ts";
+
+const FIXTURES_DIR = new URL("../../fixtures", import.meta.url).pathname;
+
+Deno.test("daily post builds offline from recorded upstream fixtures", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  setTransport(createReplayTransport(FIXTURES_DIR));
+  try {
+    const { yields, report } = await fetchTonYields();
+
+    assertEquals(
+      report.sources.map(s => [s.id, s.status, s.poolCount]),
+      [
+        ["defillama", "ok", 4],
+        ["merkl", "ok", 2],
+        ["morpho", "ok", 1],
+        ["euler", "empty", 0],
+        ["yieldfi", "ok", 2],
+        ["ethena", "ok", 1],
+        ["swapcoffee", "ok", 2],
+        ["midas", "ok", 1],
+      ],
+    );
+    assertEquals(report.unknownAssets.map(a => a.asset), ["FOO"]);
+    assertEquals(yields.TON.length, 3);
+    assertEquals(yields.STABLE.length, 6);
+    assertEquals(yields.TON_USDT.length, 2);
+
+    const post = (await formatChannelMessage(yields, report)).join("\n");
+    assertStringIncludes(post, "TON DeFi TVL: $100.2M");
+    assertStringIncludes(post, "USDT (Main): 6.1% (+3.7%) | $41.3M");
+    assertStringIncludes(post, "Midas USDT vault: ~17.98% (5y avg)");
+    assertStringIncludes(post, '<a href="https://bit.ly/Earn_With_USDT">Telegram Wallet</a>');
+  } finally {
+    setTransport(liveTransport);
+    kv.close();
+  }
+});
+
+Deno.test("dry run fetches selected sources and leaves KV untouched", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  setTransport(createReplayTransport(FIXTURES_DIR));
+  try {
+    const { yields, report } = await fetchTonYields({ sourceIds: ["defillama", "merkl"], categoryId: "TON" });
+
+    assertEquals(report.sources.map(s => s.id), ["defillama", "merkl"]);
+    assertEquals(yields.STABLE.length, 0);
+    assertEquals(yields.TON.length > 0, true);
+
+    const post = (await formatChannelMessage(yields, report, { kvWrite: false })).join("\n");
+    assertStringIncludes(post, "TON DeFi TVL: $100.2M");
+    assertEquals(await Array.fromAsync(kv.list({ prefix: [] })), []);
+  } finally {
+    setTransport(liveTransport);
+    kv.close();
+  }
+});
+
+Deno.test("unknown source IDs are rejected", async () => {
+  await assertRejects(() => fetchTonYields({ sourceIds: ["nope"] }), Error, 'Unknown source "nope"');
+});
@@ -0,0 +1,220 @@
+/**
+ * User DM Alerts
+ * Stores per-user alert rules and evaluates them after each aggregation run
+ * Uses Deno KV for persistent storage across deployments
+ *
+ * Rules:
+ *   apy>8        - a matching pool's APY is above 8%
+ *   apy<2        - a matching pool's APY is below 2%
+ *   tvl_drop>20  - a matching pool lost more than 20% of its TVL since the previous run
+ *
+ * A rule only notifies when a pool starts matching; it stays quiet while the
+ * pool keeps matching and can fire again once the pool stops and re-matches.
+ */
+
+import type { GroupedYields, YieldOpportunity } from "../types/yields.ts";
+import { generatePoolId } from "./apy_history.ts";
+import { flattenYields } from "./categories.ts";
+import { getKv } from "./kv.ts";
+
+export type AlertMetric = "apy" | "tvl_drop";
+export type AlertOperator = ">" | "<";
+
+/**
+ * A user's alert rule
+ */
+export interface AlertRule {
+  /** Short identifier shown to the user (e.g., "a1b2c3") */
+  id: string;
+  /** Telegram chat to notify (the user's DM chat) */
+  chatId: number;
+  /** Asset symbol or protocol name (e.g., "USDT", "EVAA") */
+  target: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  /** ISO timestamp when the rule was created */
+  createdAt: string;
+}
+
+/**
+ * Per-rule evaluation state used for de-duplication
+ */
+interface AlertState {
+  /** Pool IDs that matched during the previous evaluation */
+  firingPools: string[];
+  /** Pool ID -> TVL seen during the previous evaluation (for tvl_drop) */
+  tvlBaseline: Record<string, number>;
+}
+
+const KV_PREFIX = ["alerts"];
+const STATE_PREFIX = ["alert_state"];
+const MAX_ALERTS_PER_USER = 10;
+
+/**
+ * Format a rule's condition for display (e.g., "USDT apy>8%")
+ */
+export function describeAlertRule(rule: Pick<AlertRule, "target" | "metric" | "operator" | "threshold">): string {
+  return `${rule.target} ${rule.metric}${rule.operator}${rule.threshold}%`;
+}
+
+/**
+ * Add an alert rule for a chat
+ * Throws if the chat already has the maximum number of alerts
+ */
+export async function addAlert(
+  rule: Omit<AlertRule, "id" | "createdAt">,
+): Promise<AlertRule> {
+  const existing = await listAlerts(rule.chatId);
+  if (existing.length >= MAX_ALERTS_PER_USER) {
+    throw new Error(`You can have at most ${MAX_ALERTS_PER_USER} alerts`);
+  }
+
+  const created: AlertRule = {
+    ...rule,
+    id: crypto.randomUUID().slice(0, 6),
+    createdAt: new Date().toISOString(),
+  };
+
+  const kv = await getKv();
+  await kv.set([...KV_PREFIX, rule.chatId, created.id], created);
+
+  return created;
+}
+
+/**
+ * List alert rules for a chat
+ */
+export async function listAlerts(chatId: number): Promise<AlertRule[]> {
+  const kv = await getKv();
+  const rules: AlertRule[] = [];
+  for await (const entry of kv.list<AlertRule>({ prefix: [...KV_PREFIX, chatId] })) {
+    rules.push(entry.value);
+  }
+  return rules.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Remove an alert rule
+ * Returns false if the chat has no alert with this ID
+ */
+export async function removeAlert(chatId: number, id: string): Promise<boolean> {
+  const kv = await getKv();
+  const key = [...KV_PREFIX, chatId, id];
+  const existing = await kv.get<AlertRule>(key);
+  if (!existing.value) {
+    return false;
+  }
+
+  await kv.atomic()
+    .delete(key)
+    .delete([...STATE_PREFIX, id])
+    .commit();
+  return true;
+}
+
+/**
+ * Normalize a symbol or protocol name for matching ("USD₮" -> "usdt", "Ston.fi" -> "stonfi")
+ */
+function normalize(value: string): string {
+  return value.replace(/USD₮/g, "USDT").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Check whether a pool is covered by a rule's target
+ * Matches the protocol name or any asset of the pool (e.g., "USDT" matches "USDT-USDC")
+ */
+function matchesTarget(pool: YieldOpportunity, target: string): boolean {
+  const normalizedTarget = normalize(target);
+  if (normalize(pool.source) === normalizedTarget) {
+    return true;
+  }
+  return pool.asset.split(/[-\/\s]/).some(part => normalize(part) === normalizedTarget);
+}
+
+/**
+ * Check whether a rule's condition holds for a pool
+ */
+function conditionHolds(rule: AlertRule, pool: YieldOpportunity, previousTvl: number | undefined): boolean {
+  if (rule.metric === "apy") {
+    return rule.operator === ">" ? pool.apyTotal > rule.threshold : pool.apyTotal < rule.threshold;
+  }
+
+  // tvl_drop needs a previous observation to compare against
+  if (previousTvl === undefined || previousTvl <= 0) {
+    return false;
+  }
+  const dropPercent = ((previousTvl - pool.tvlUsd) / previousTvl) * 100;
+  return dropPercent > rule.threshold;
+}
+
+/**
+ * Format a notification for pools that started matching a rule
+ */
+function formatAlertMessage(rule: AlertRule, pools: YieldOpportunity[], baseline: Record<string, number>): string {
+  const lines = [`🔔 Alert ${rule.id}: ${describeAlertRule(rule)}`, ""];
+
+  for (const pool of pools) {
+    const label = pool.poolMeta ? `${pool.asset} (${pool.poolMeta})` : pool.asset;
+    const tvl = `$${(pool.tvlUsd / 1_000_000).toFixed(2)}M`;
+    if (rule.metric === "tvl_drop") {
+      const previous = baseline[generatePoolId(pool)];
+      const previousTvl = `$${(previous / 1_000_000).toFixed(2)}M`;
+      lines.push(`• ${pool.source} ${label}: TVL ${previousTvl} → ${tvl}`);
+    } else {
+      lines.push(`• ${pool.source} ${label}: ${pool.apyTotal.toFixed(1)}% APY | ${tvl}`);
+    }
+  }
+
+  lines.push("", "Manage alerts with /alert list");
+  return lines.join("\n");
+}
+
+/**
+ * Evaluate every stored alert rule against this run's yields
+ * and notify chats whose rules started firing
+ */
+export async function evaluateAlerts(
+  yields: GroupedYields,
+  notify: (chatId: number, text: string) => Promise<void>,
+): Promise<void> {
+  const pools = flattenYields(yields);
+  const kv = await getKv();
+
+  let rulesChecked = 0;
+  let notificationsSent = 0;
+
+  for await (const entry of kv.list<AlertRule>({ prefix: KV_PREFIX })) {
+    const rule = entry.value;
+    rulesChecked++;
+
+    const stateKey = [...STATE_PREFIX, rule.id];
+    const previous = (await kv.get<AlertState>(stateKey)).value ?? { firingPools: [], tvlBaseline: {} };
+    const previouslyFiring = new Set(previous.firingPools);
+
+    const matching = pools.filter(pool => matchesTarget(pool, rule.target));
+    const firing = matching.filter(pool =>
+      conditionHolds(rule, pool, previous.tvlBaseline[generatePoolId(pool)])
+    );
+    const newlyFiring = firing.filter(pool => !previouslyFiring.has(generatePoolId(pool)));
+
+    if (newlyFiring.length > 0) {
+      try {
+        await notify(rule.chatId, formatAlertMessage(rule, newlyFiring, previous.tvlBaseline));
+        notificationsSent++;
+      } catch (error) {
+        // Keep the previous state so the alert is retried on the next run
+        console.error(`Failed to send alert ${rule.id} to ${rule.chatId}:`, error);
+        continue;
+      }
+    }
+
+    const state: AlertState = {
+      firingPools: firing.map(generatePoolId),
+      tvlBaseline: Object.fromEntries(matching.map(pool => [generatePoolId(pool), pool.tvlUsd])),
+    };
+    await kv.set(stateKey, state);
+  }
+
+  console.log(`✓ Alerts evaluated: ${rulesChecked} rules, ${notificationsSent} notifications sent`);
+}
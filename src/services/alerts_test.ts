@@ -0,0 +1,91 @@
+import { assertEquals, assertStringIncludes } from "std/assert/mod.ts";
+import type { YieldOpportunity } from "../types/yields.ts";
+import { addAlert, evaluateAlerts } from "./alerts.ts";
+import { groupByCategory } from "./categories.ts";
+import { setKv } from "./kv.ts";
+import { createPool } from "../testing/pools.ts";
+
+/**
+ * Evaluate the stored rules against some pools and return the notifications sent
+ */
+async function runAlerts(pools: YieldOpportunity[]): Promise<Array<[number, string]>> {
+  const sent: Array<[number, string]> = [];
+  await evaluateAlerts(groupByCategory(pools), (chatId, text) => {
+    sent.push([chatId, text]);
+    return Promise.resolve();
+  });
+  return sent;
+}
+
+Deno.test("an apy alert fires once, stays quiet while matching and fires again after clearing", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    await addAlert({ chatId: 7, target: "USDT", metric: "apy", operator: ">", threshold: 8 });
+    const pool = (apyTotal: number) => createPool({ asset: "USDT", apyBase: apyTotal, apyTotal });
+
+    const first = await runAlerts([pool(9.5)]);
+    assertEquals(first.length, 1);
+    assertEquals(first[0][0], 7);
+    assertStringIncludes(first[0][1], "USDT apy>8%");
+    assertStringIncludes(first[0][1], "EVAA USDT: 9.5% APY | $1.00M");
+
+    assertEquals(await runAlerts([pool(10)]), []);
+    assertEquals(await runAlerts([pool(7)]), []);
+    assertEquals((await runAlerts([pool(8.5)])).length, 1);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("an alert only covers pools matching its target", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    await addAlert({ chatId: 7, target: "Ston.fi", metric: "apy", operator: ">", threshold: 8 });
+
+    const sent = await runAlerts([
+      createPool({ source: "EVAA", asset: "USDT", apyTotal: 12 }),
+      createPool({ source: "STON.fi", asset: "USD₮-USDC", apyTotal: 9 }),
+    ]);
+    assertEquals(sent.length, 1);
+    assertStringIncludes(sent[0][1], "STON.fi USD₮-USDC");
+    assertEquals(sent[0][1].includes("EVAA"), false);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("a tvl_drop alert compares with the previous run's TVL", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    await addAlert({ chatId: 7, target: "EVAA", metric: "tvl_drop", operator: ">", threshold: 20 });
+    const pool = (tvlUsd: number) => createPool({ source: "EVAA", asset: "USDT", tvlUsd });
+
+    // The first run only records the baseline
+    assertEquals(await runAlerts([pool(10_000_000)]), []);
+    // A 10% drop stays under the threshold but moves the baseline
+    assertEquals(await runAlerts([pool(9_000_000)]), []);
+
+    const sent = await runAlerts([pool(6_000_000)]);
+    assertEquals(sent.length, 1);
+    assertStringIncludes(sent[0][1], "EVAA USDT: TVL $9.00M → $6.00M");
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("a failed notification is retried on the next run", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    await addAlert({ chatId: 7, target: "USDT", metric: "apy", operator: ">", threshold: 8 });
+    const yields = groupByCategory([createPool({ asset: "USDT", apyTotal: 9 })]);
+
+    await evaluateAlerts(yields, () => Promise.reject(new Error("chat not found")));
+    assertEquals((await runAlerts([createPool({ asset: "USDT", apyTotal: 9 })])).length, 1);
+  } finally {
+    kv.close();
+  }
+});
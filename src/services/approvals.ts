@@ -0,0 +1,175 @@
+/**
+ * Post Approvals
+ * With approval enabled, the daily post is stored as a draft and previewed in
+ * the admin chat instead of going straight to the channel. An admin publishes,
+ * skips or regenerates it; a draft nobody acts on is published automatically
+ * once its timeout passes.
+ *
+ * Drafts live in KV (["approvals", id]) and move out of "pending" exactly once:
+ * a decision commits atomically against the pending entry, together with the
+ * queue task that carries it out (publish or regenerate). A double click or a
+ * click racing the timeout therefore can't schedule the work twice.
+ *
+ * Publishing records each channel message as it's sent, so a publish that fails
+ * halfway resumes at the first unsent message when the queue redelivers it.
+ */
+
+import { getKv } from "./kv.ts";
+import { now } from "./clock.ts";
+
+export type DraftStatus = "pending" | "published" | "skipped" | "regenerated";
+
+/**
+ * Who decided on a draft (null approver = published on timeout)
+ */
+export interface Approver {
+  /** Telegram user ID */
+  id: number;
+  /** Display name (@username or first/last name) */
+  name: string;
+}
+
+/**
+ * How far a thread of messages got, so an interrupted send can resume
+ */
+export interface DeliveryProgress {
+  /** Messages already sent */
+  sent: number;
+  /** ID of the first message, which later ones reply to */
+  firstMessageId?: number;
+}
+
+/**
+ * A daily post waiting for (or past) admin review
+ */
+export interface PostDraft {
+  /** Short identifier used in button callback data */
+  id: string;
+  /** Rendered channel messages, as they'll be posted */
+  messages: string[];
+  status: DraftStatus;
+  /** ISO timestamp when the draft was created */
+  createdAt: string;
+  /** ISO timestamp of the auto-publish (null = wait for an admin) */
+  publishAt: string | null;
+  /** Start time of the stored run the draft was built from (absent when the run wasn't recorded) */
+  recordedRun?: string;
+  /** Channel delivery so far (once published) */
+  delivery: DeliveryProgress;
+  /** ISO timestamp of the decision */
+  decidedAt?: string;
+  /** Admin who decided; null when published on timeout */
+  decidedBy?: Approver | null;
+}
+
+/**
+ * Work scheduled through the KV queue
+ */
+export type ApprovalTask =
+  | { kind: "approval-timeout"; draftId: string }
+  | { kind: "approval-publish"; draftId: string }
+  | { kind: "approval-regenerate"; draftId: string };
+
+const KV_PREFIX = ["approvals"];
+const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Keep decisions around for a week
+
+/** Queue task that carries out each decision */
+const DECISION_TASKS: Partial<Record<DraftStatus, ApprovalTask["kind"]>> = {
+  published: "approval-publish",
+  regenerated: "approval-regenerate",
+};
+
+/**
+ * Store a new pending draft
+ * timeoutMinutes of 0 disables the auto-publish.
+ */
+export async function createDraft(messages: string[], timeoutMinutes: number, recordedRun?: string): Promise<PostDraft> {
+  const createdAt = now();
+  const draft: PostDraft = {
+    id: crypto.randomUUID().slice(0, 8),
+    messages,
+    status: "pending",
+    createdAt: createdAt.toISOString(),
+    publishAt: timeoutMinutes > 0 ? new Date(createdAt.getTime() + timeoutMinutes * 60 * 1000).toISOString() : null,
+    recordedRun,
+    delivery: { sent: 0 },
+  };
+
+  const kv = await getKv();
+  await kv.set([...KV_PREFIX, draft.id], draft, { expireIn: DRAFT_TTL_MS });
+  console.log(`✓ Draft ${draft.id} awaiting approval (${draft.publishAt ? `auto-publish at ${draft.publishAt}` : "no timeout"})`);
+  return draft;
+}
+
+/**
+ * Load a draft by ID (or null if unknown or expired)
+ */
+export async function getDraft(id: string): Promise<PostDraft | null> {
+  const kv = await getKv();
+  return (await kv.get<PostDraft>([...KV_PREFIX, id])).value;
+}
+
+/**
+ * Move a pending draft to a decision and queue the work it implies
+ * Returns the updated draft, or null when it isn't pending anymore (already handled).
+ */
+export async function decideDraft(
+  id: string,
+  status: Exclude<DraftStatus, "pending">,
+  approver: Approver | null,
+): Promise<PostDraft | null> {
+  const kv = await getKv();
+  const entry = await kv.get<PostDraft>([...KV_PREFIX, id]);
+  if (!entry.value || entry.value.status !== "pending") {
+    return null;
+  }
+
+  const decided: PostDraft = { ...entry.value, status, decidedAt: now().toISOString(), decidedBy: approver };
+  const op = kv.atomic()
+    .check(entry)
+    .set(entry.key, decided, { expireIn: DRAFT_TTL_MS });
+  const kind = DECISION_TASKS[status];
+  if (kind) {
+    op.enqueue({ kind, draftId: id } satisfies ApprovalTask);
+  }
+  const commit = await op.commit();
+  if (!commit.ok) {
+    // Someone else decided in the meantime
+    return null;
+  }
+
+  const by = approver ? `by ${approver.name}` : "on timeout";
+  console.log(`✓ Draft ${id} ${status} ${by}`);
+  return decided;
+}
+
+/**
+ * Record how much of a published draft has reached the channel
+ */
+export async function saveDraftDelivery(id: string, delivery: DeliveryProgress): Promise<void> {
+  const kv = await getKv();
+  const draft = await getDraft(id);
+  if (draft) {
+    await kv.set([...KV_PREFIX, id], { ...draft, delivery }, { expireIn: DRAFT_TTL_MS });
+  }
+}
+
+/**
+ * Schedule approval work on the KV queue
+ */
+export async function enqueueApprovalTask(task: ApprovalTask, delayMs = 0): Promise<void> {
+  const kv = await getKv();
+  await kv.enqueue(task, { delay: delayMs });
+}
+
+/**
+ * Check whether a queue message is approval work
+ */
+export function isApprovalTask(value: unknown): value is ApprovalTask {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { kind, draftId } = value as Record<string, unknown>;
+  return (kind === "approval-timeout" || kind === "approval-publish" || kind === "approval-regenerate") &&
+    typeof draftId === "string";
+}
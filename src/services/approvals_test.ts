@@ -0,0 +1,52 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { createDraft, decideDraft, getDraft, isApprovalTask, saveDraftDelivery } from "./approvals.ts";
+import { setKv } from "./kv.ts";
+import { setNow } from "./clock.ts";
+import { parseApprovalCallback } from "../commands/approval.ts";
+
+Deno.test("a draft is decided exactly once", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  setNow(new Date("2026-10-19T09:00:00.000Z"));
+  try {
+    const draft = await createDraft(["<b>TON Yields Daily</b>"], 60);
+    assertEquals(draft.status, "pending");
+    assertEquals(draft.publishAt, "2026-10-19T10:00:00.000Z");
+
+    const approver = { id: 42, name: "@alice" };
+    const published = await decideDraft(draft.id, "published", approver);
+    assertEquals(published?.status, "published");
+    assertEquals(published?.decidedBy, approver);
+
+    // A second click (or the timeout) finds nothing to do
+    assertEquals(await decideDraft(draft.id, "skipped", { id: 7, name: "@bob" }), null);
+    assertEquals(await decideDraft(draft.id, "published", null), null);
+    assertEquals((await getDraft(draft.id))?.decidedBy, approver);
+
+    // Delivery progress is kept with the decision
+    await saveDraftDelivery(draft.id, { sent: 1, firstMessageId: 10 });
+    assertEquals(await getDraft(draft.id), { ...published!, delivery: { sent: 1, firstMessageId: 10 } });
+  } finally {
+    setNow(null);
+    kv.close();
+  }
+});
+
+Deno.test("a zero timeout waits for an admin", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    assertEquals((await createDraft(["post"], 0)).publishAt, null);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("approval callbacks and queue messages are recognized", () => {
+  assertEquals(parseApprovalCallback("approval:publish:1a2b3c4d"), { action: "publish", draftId: "1a2b3c4d" });
+  assertEquals(parseApprovalCallback("approval:delete:1a2b3c4d"), null);
+  assertEquals(isApprovalTask({ kind: "approval-timeout", draftId: "1a2b3c4d" }), true);
+  assertEquals(isApprovalTask({ kind: "approval-publish", draftId: "1a2b3c4d" }), true);
+  assertEquals(isApprovalTask({ kind: "approval-timeout" }), false);
+  assertEquals(isApprovalTask("approval-timeout"), false);
+});
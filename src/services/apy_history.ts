@@ -1,55 +1,52 @@
 /**
  * APY History Tracker
- * Stores daily APY snapshots to calculate 7-day averages
- * Uses Deno KV for persistent storage across deployments
+ * Stores daily APY and TVL snapshots per pool to calculate 7-day averages and TVL trends
+ * Uses the pool snapshot store (Deno KV) for persistent storage across deployments
  */
 
 import type { YieldOpportunity } from "../types/yields.ts";
+import {
+  loadAllPoolSnapshots,
+  loadPoolSnapshots,
+  type PoolLabel,
+  type PoolSnapshot,
+  rekeyPoolSnapshots,
+  savePoolSnapshots,
+} from "./snapshot_store.ts";
+import { getDateDaysAgo, now } from "./clock.ts";
 
-interface ApySnapshot {
-  date: string; // ISO date string (YYYY-MM-DD)
-  apy: number;
-  timestamp: number;
-}
+export type { PoolLabel } from "./snapshot_store.ts";
 
-interface PoolHistory {
-  poolId: string;
-  snapshots: ApySnapshot[];
+/**
+ * Pool TVL change in percent (null when there's no snapshot to compare)
+ */
+export interface PoolTvlChange {
+  change24h: number | null;
+  change7d: number | null;
 }
 
-const KV_PREFIX = ["apy_history"];
-const MAX_HISTORY_DAYS = 30; // Keep last 30 days
+/**
+ * Snapshots per pool ID, newest first
+ */
+export type PoolHistories = Map<string, PoolSnapshot[]>;
+
 const MIN_DAYS_FOR_AVERAGE = 3; // Minimum days needed to show average
 
 /**
- * Open Deno KV database
- * In production (Deno Deploy): uses cloud KV (no path needed)
- * In development: uses local file in ./data/kv.db
- */
-async function getKv(): Promise<Deno.Kv> {
-  // Check if we're in Deno Deploy production environment
-  const isProduction = Deno.env.get("DENO_DEPLOYMENT_ID") !== undefined;
-  
-  if (isProduction) {
-    // Production: Use cloud KV (default)
-    return await Deno.openKv();
-  } else {
-    // Development: Use local file-based KV
-    try {
-      await Deno.mkdir("./data", { recursive: true });
-    } catch {
-      // Directory already exists
-    }
-    return await Deno.openKv("./data/kv.db");
-  }
+ * Get the history key for a pool
+ * Uses the pool's stable ID, so history survives label changes
+ * Example: "swapcoffee:ton:EQB...", "goldsky:tac:0x..."
+ */
+export function generatePoolId(pool: YieldOpportunity): string {
+  return pool.id;
 }
 
 /**
- * Generate a unique pool ID from YieldOpportunity
+ * Pre-ID history key built from display fields
  * Format: "source-asset-poolMeta"
  * Example: "EVAA-USDT-Main", "Stonfi-TON-tsTON-tsTON"
  */
-function generatePoolId(pool: YieldOpportunity): string {
+function generateLegacyPoolId(pool: PoolLabel): string {
   const source = pool.source.replace(/[^a-zA-Z0-9]/g, "");
   const asset = pool.asset.replace(/[^a-zA-Z0-9]/g, "");
   const meta = pool.poolMeta ? pool.poolMeta.replace(/[^a-zA-Z0-9]/g, "") : "default";
@@ -57,46 +54,62 @@ function generatePoolId(pool: YieldOpportunity): string {
 }
 
 /**
- * Get today's date as ISO string (YYYY-MM-DD)
+ * Build today's snapshot for a pool
  */
-function getTodayDate(): string {
-  const now = new Date();
-  return now.toISOString().split("T")[0];
+function createSnapshot(pool: YieldOpportunity): PoolSnapshot {
+  return {
+    date: getDateDaysAgo(0),
+    apy: pool.apyTotal,
+    tvl: pool.tvlUsd,
+    timestamp: now().getTime(),
+    label: { source: pool.source, asset: pool.asset, poolMeta: pool.poolMeta },
+  };
 }
 
 /**
- * Load pool history from Deno KV
+ * Average APY over the last 7 snapshots (null if not enough history)
+ * @param snapshots - Newest first
  */
-async function loadPoolHistory(poolId: string): Promise<PoolHistory> {
-  try {
-    const kv = await getKv();
-    const key = [...KV_PREFIX, poolId];
-    const result = await kv.get<PoolHistory>(key);
-    kv.close();
-    
-    if (result.value) {
-      return result.value;
-    }
-    
-    return { poolId, snapshots: [] };
-  } catch (error) {
-    console.error(`Failed to load APY history for ${poolId}:`, error);
-    return { poolId, snapshots: [] };
+function averageApy(snapshots: PoolSnapshot[]): number | null {
+  if (snapshots.length < MIN_DAYS_FOR_AVERAGE) {
+    return null;
   }
+
+  // Get last 7 days of snapshots
+  const last7Days = snapshots.slice(0, 7);
+
+  // Calculate average
+  const sum = last7Days.reduce((acc, snap) => acc + snap.apy, 0);
+  return sum / last7Days.length;
 }
 
 /**
- * Save pool history to Deno KV
+ * APY from yesterday's snapshot (null if the pool wasn't tracked yesterday)
  */
-async function savePoolHistory(history: PoolHistory): Promise<void> {
-  try {
-    const kv = await getKv();
-    const key = [...KV_PREFIX, history.poolId];
-    await kv.set(key, history);
-    kv.close();
-  } catch (error) {
-    console.error(`Failed to save APY history for ${history.poolId}:`, error);
+function yesterdayApy(snapshots: PoolSnapshot[]): number | null {
+  const yesterday = getDateDaysAgo(1);
+  return snapshots.find(s => s.date === yesterday)?.apy ?? null;
+}
+
+/**
+ * Percent change between a previous TVL and the current one
+ */
+function percentChange(current: number, previous: number | undefined): number | null {
+  if (previous === undefined || previous <= 0) {
+    return null;
   }
+  return ((current - previous) / previous) * 100;
+}
+
+/**
+ * TVL change vs yesterday and vs 7 days ago
+ */
+function tvlChange(pool: YieldOpportunity, snapshots: PoolSnapshot[]): PoolTvlChange {
+  const tvlOn = (date: string) => snapshots.find(s => s.date === date)?.tvl;
+  return {
+    change24h: percentChange(pool.tvlUsd, tvlOn(getDateDaysAgo(1))),
+    change7d: percentChange(pool.tvlUsd, tvlOn(getDateDaysAgo(7))),
+  };
 }
 
 /**
@@ -104,35 +117,8 @@ async function savePoolHistory(history: PoolHistory): Promise<void> {
  */
 export async function saveApySnapshot(pool: YieldOpportunity): Promise<void> {
   try {
-    const poolId = generatePoolId(pool);
-    const history = await loadPoolHistory(poolId);
-    const today = getTodayDate();
-    
-    // Check if we already have a snapshot for today
-    const existingIndex = history.snapshots.findIndex(s => s.date === today);
-    
-    const snapshot: ApySnapshot = {
-      date: today,
-      apy: pool.apyTotal,
-      timestamp: Date.now(),
-    };
-    
-    if (existingIndex >= 0) {
-      // Update existing snapshot
-      history.snapshots[existingIndex] = snapshot;
-    } else {
-      // Add new snapshot
-      history.snapshots.push(snapshot);
-    }
-    
-    // Sort by date (newest first)
-    history.snapshots.sort((a, b) => b.date.localeCompare(a.date));
-    
-    // Keep only last N days
-    history.snapshots = history.snapshots.slice(0, MAX_HISTORY_DAYS);
-    
-    await savePoolHistory(history);
-  } catch (error) {
+    await savePoolSnapshots(new Map([[generatePoolId(pool), createSnapshot(pool)]]));
+  } catch {
     // Silent fail - don't break message generation
   }
 }
@@ -143,22 +129,8 @@ export async function saveApySnapshot(pool: YieldOpportunity): Promise<void> {
  */
 export async function calculate7DayAverage(pool: YieldOpportunity): Promise<number | null> {
   try {
-    const poolId = generatePoolId(pool);
-    const history = await loadPoolHistory(poolId);
-    
-    if (history.snapshots.length < MIN_DAYS_FOR_AVERAGE) {
-      return null;
-    }
-    
-    // Get last 7 days of snapshots
-    const last7Days = history.snapshots.slice(0, 7);
-    
-    // Calculate average
-    const sum = last7Days.reduce((acc, snap) => acc + snap.apy, 0);
-    const average = sum / last7Days.length;
-    
-    return average;
-  } catch (error) {
+    return averageApy(await loadPoolSnapshots(generatePoolId(pool)));
+  } catch {
     return null;
   }
 }
@@ -170,50 +142,198 @@ export async function calculate7DayAverage(pool: YieldOpportunity): Promise<numb
 export async function saveAllApySnapshots(pools: YieldOpportunity[]): Promise<void> {
   try {
     console.log(`Saving APY snapshots for ${pools.length} pools...`);
-    
-    // Save in batches to avoid overwhelming KV
-    const batchSize = 50;
-    for (let i = 0; i < pools.length; i += batchSize) {
-      const batch = pools.slice(i, i + batchSize);
-      await Promise.all(batch.map(pool => saveApySnapshot(pool)));
+
+    // Move history still stored under label-based keys to stable IDs, mapped through
+    // the labels of stored pools (and today's); a no-op once the migration completed
+    const moved = await rekeyPoolSnapshots(
+      generateLegacyPoolId,
+      new Map(pools.map(pool => [generateLegacyPoolId(pool), generatePoolId(pool)])),
+    );
+    if (moved > 0) {
+      console.log(`✓ Re-keyed APY history for ${moved} pools to stable IDs`);
     }
-    
+
+    // Pools that map to the same ID keep the last one seen
+    const snapshots = new Map(pools.map(pool => [generatePoolId(pool), createSnapshot(pool)]));
+    await savePoolSnapshots(snapshots);
+
     console.log(`✓ APY snapshots saved`);
   } catch (error) {
     console.error("Failed to save APY snapshots:", error);
   }
 }
 
+/**
+ * Load stored history with today's snapshot of every pool in front, without saving it
+ * Snapshots dated after today are left out, so a pinned clock (--as-of) sees
+ * history as it was on that day. Pass the result to the functions below.
+ */
+export async function loadPoolHistories(pools: YieldOpportunity[]): Promise<PoolHistories> {
+  const today = getDateDaysAgo(0);
+  const histories: PoolHistories = new Map();
+  for (const [poolId, snapshots] of await loadAllPoolSnapshots()) {
+    histories.set(poolId, snapshots.filter(s => s.date < today));
+  }
+
+  // Pools that map to the same ID keep the last one seen (as when saving)
+  const todays = new Map(pools.map(pool => [generatePoolId(pool), createSnapshot(pool)]));
+  for (const [poolId, snapshot] of todays) {
+    histories.set(poolId, [snapshot, ...(histories.get(poolId) ?? [])]);
+  }
+  return histories;
+}
+
 /**
  * Calculate 7-day averages for all pools
  * Returns a Map of pool -> 7-day average
+ * @param stored - Preloaded histories (loaded from KV when omitted)
  */
-export async function calculateAll7DayAverages(pools: YieldOpportunity[]): Promise<Map<YieldOpportunity, number>> {
+export async function calculateAll7DayAverages(
+  pools: YieldOpportunity[],
+  stored?: PoolHistories,
+): Promise<Map<YieldOpportunity, number>> {
   const averages = new Map<YieldOpportunity, number>();
-  
+
   try {
-    // Calculate in batches for performance
-    const batchSize = 50;
-    for (let i = 0; i < pools.length; i += batchSize) {
-      const batch = pools.slice(i, i + batchSize);
-      const results = await Promise.all(
-        batch.map(async pool => {
-          const avg = await calculate7DayAverage(pool);
-          return { pool, avg };
-        })
-      );
-      
-      for (const { pool, avg } of results) {
-        if (avg !== null) {
-          averages.set(pool, avg);
-        }
+    const histories = stored ?? await loadAllPoolSnapshots();
+    for (const pool of pools) {
+      const avg = averageApy(histories.get(generatePoolId(pool)) ?? []);
+      if (avg !== null) {
+        averages.set(pool, avg);
       }
     }
-    
+
     console.log(`✓ Calculated 7-day averages for ${averages.size}/${pools.length} pools`);
   } catch (error) {
     console.error("Failed to calculate 7-day averages:", error);
   }
-  
+
   return averages;
 }
+
+/**
+ * Get yesterday's APY for all pools
+ * Returns a Map of pool -> yesterday's APY (pools without a snapshot are omitted)
+ */
+export async function getAllYesterdayApys(
+  pools: YieldOpportunity[],
+  stored?: PoolHistories,
+): Promise<Map<YieldOpportunity, number>> {
+  const previous = new Map<YieldOpportunity, number>();
+
+  try {
+    const histories = stored ?? await loadAllPoolSnapshots();
+    for (const pool of pools) {
+      const apy = yesterdayApy(histories.get(generatePoolId(pool)) ?? []);
+      if (apy !== null) {
+        previous.set(pool, apy);
+      }
+    }
+
+    console.log(`✓ Loaded yesterday's APY for ${previous.size}/${pools.length} pools`);
+  } catch (error) {
+    console.error("Failed to load yesterday's APY:", error);
+  }
+
+  return previous;
+}
+
+/**
+ * Get a pool's daily APY/TVL snapshots within the history window, oldest first
+ * Returns an empty list for unknown pools
+ */
+export async function getPoolHistory(poolId: string): Promise<PoolSnapshot[]> {
+  return (await loadPoolSnapshots(poolId)).reverse();
+}
+
+/**
+ * Calculate TVL changes for all pools
+ * Returns a Map of pool -> TVL change (pools without any TVL history are omitted)
+ */
+export async function calculateAllTvlChanges(
+  pools: YieldOpportunity[],
+  stored?: PoolHistories,
+): Promise<Map<YieldOpportunity, PoolTvlChange>> {
+  const changes = new Map<YieldOpportunity, PoolTvlChange>();
+
+  try {
+    const histories = stored ?? await loadAllPoolSnapshots();
+    for (const pool of pools) {
+      const change = tvlChange(pool, histories.get(generatePoolId(pool)) ?? []);
+      if (change.change24h !== null || change.change7d !== null) {
+        changes.set(pool, change);
+      }
+    }
+
+    console.log(`✓ Calculated TVL changes for ${changes.size}/${pools.length} pools`);
+  } catch (error) {
+    console.error("Failed to calculate TVL changes:", error);
+  }
+
+  return changes;
+}
+
+/**
+ * Find pools first seen within the last N days (1 = first snapshot is today)
+ * Call after saving today's snapshots, or pass histories from loadPoolHistories().
+ * Returns an empty set when there's no older history at all (first run),
+ * so a fresh database doesn't mark every pool as new.
+ */
+export async function getNewPools(
+  pools: YieldOpportunity[],
+  withinDays: number,
+  stored?: PoolHistories,
+): Promise<Set<YieldOpportunity>> {
+  const newPools = new Set<YieldOpportunity>();
+  const cutoff = getDateDaysAgo(withinDays - 1);
+  let hasOlderHistory = false;
+
+  try {
+    const histories = stored ?? await loadAllPoolSnapshots();
+    for (const pool of pools) {
+      // Snapshots are sorted newest first
+      const snapshots = histories.get(generatePoolId(pool)) ?? [];
+      const firstSeen = snapshots[snapshots.length - 1]?.date;
+      if (!firstSeen || firstSeen >= cutoff) {
+        newPools.add(pool);
+      } else {
+        hasOlderHistory = true;
+      }
+    }
+  } catch (error) {
+    console.error("Failed to find new pools:", error);
+    return new Set();
+  }
+
+  if (!hasOlderHistory) {
+    return new Set();
+  }
+
+  console.log(`✓ Found ${newPools.size} new pools (first seen within ${withinDays} day(s))`);
+  return newPools;
+}
+
+/**
+ * Find pools that were tracked yesterday but are missing from today's run
+ * Call after saving today's snapshots, or pass histories from loadPoolHistories().
+ */
+export async function getDelistedPools(pools: YieldOpportunity[], stored?: PoolHistories): Promise<PoolLabel[]> {
+  const currentIds = new Set(pools.map(generatePoolId));
+  const yesterday = getDateDaysAgo(1);
+  const delisted: PoolLabel[] = [];
+
+  try {
+    const histories = stored ?? await loadAllPoolSnapshots();
+    for (const [poolId, snapshots] of histories) {
+      const latest = snapshots[0];
+      // Only report pools whose last snapshot was yesterday (they vanished today)
+      if (!currentIds.has(poolId) && latest?.date === yesterday && latest.label) {
+        delisted.push(latest.label);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to find delisted pools:", error);
+  }
+
+  return delisted;
+}
@@ -0,0 +1,95 @@
+/**
+ * Asset Categories
+ * Sorts pools into the sections of the daily post defined in config.categories
+ */
+
+import type {
+  CategoryDefinition,
+  CategoryRule,
+  GroupedYields,
+  YieldOpportunity,
+} from "../types/yields.ts";
+import { config } from "../config.ts";
+
+/**
+ * Get all configured categories in display order
+ */
+export function getCategories(): readonly CategoryDefinition[] {
+  return config.categories;
+}
+
+/**
+ * Section title with emoji (e.g., "💵 STABLECOINS AND RELATED ASSETS")
+ */
+export function getCategoryTitle(category: CategoryDefinition): string {
+  return `${category.emoji} ${category.title}`;
+}
+
+/**
+ * Find the category matching a /yields keyword (category ID or alias, case-insensitive)
+ */
+export function findCategoryByAlias(keyword: string): CategoryDefinition | undefined {
+  const lower = keyword.toLowerCase();
+  return config.categories.find(category =>
+    category.id.toLowerCase() === lower || category.aliases?.includes(lower)
+  );
+}
+
+/**
+ * Check a pool against a category's rules
+ * TON-USDT pools only ever match categories that ask for them
+ */
+function matchesRule(pool: YieldOpportunity, rule: CategoryRule): boolean {
+  if (Boolean(pool.isTonUsdtPool) !== Boolean(rule.tonUsdtPool)) {
+    return false;
+  }
+  if (rule.assetTypes && !rule.assetTypes.includes(pool.assetType)) {
+    return false;
+  }
+  if (rule.chains && !rule.chains.includes(pool.chain)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Find the category a pool is posted in (first match in config order, null if none)
+ */
+export function categorizeYield(pool: YieldOpportunity): CategoryDefinition | null {
+  // Unregistered tokens are reported to the admin instead of posted
+  if (pool.assetType === "UNKNOWN") {
+    return null;
+  }
+  return config.categories.find(category => matchesRule(pool, category.match)) ?? null;
+}
+
+/**
+ * Group pools by category ID, sorted by TVL (highest first) within each category
+ * Every configured category gets an entry; pools matching no category are left out
+ */
+export function groupByCategory(pools: YieldOpportunity[]): GroupedYields {
+  const grouped: GroupedYields = {};
+  for (const category of config.categories) {
+    grouped[category.id] = [];
+  }
+
+  for (const pool of pools) {
+    const category = categorizeYield(pool);
+    if (category) {
+      grouped[category.id].push(pool);
+    }
+  }
+
+  for (const id of Object.keys(grouped)) {
+    grouped[id].sort((a, b) => b.tvlUsd - a.tvlUsd);
+  }
+
+  return grouped;
+}
+
+/**
+ * All grouped pools as one list, in category display order
+ */
+export function flattenYields(grouped: GroupedYields): YieldOpportunity[] {
+  return config.categories.flatMap(category => grouped[category.id] ?? []);
+}
@@ -0,0 +1,31 @@
+/**
+ * Clock
+ * The current time for everything keyed by date: history snapshots, the
+ * day-over-day comparisons and the post header. Pinning it (CLI --as-of,
+ * tests) reruns the pipeline as if it were that day.
+ */
+
+let pinned: Date | null = null;
+
+/**
+ * Current time (the pinned time when set)
+ */
+export function now(): Date {
+  return pinned ? new Date(pinned.getTime()) : new Date();
+}
+
+/**
+ * Pin the clock to a fixed time (null restores the real clock)
+ */
+export function setNow(date: Date | null): void {
+  pinned = date ? new Date(date.getTime()) : null;
+}
+
+/**
+ * Get the date N days before today as ISO string (YYYY-MM-DD)
+ */
+export function getDateDaysAgo(days: number): string {
+  const date = now();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().split("T")[0];
+}
@@ -0,0 +1,79 @@
+/**
+ * CSV Helpers
+ * Minimal RFC 4180 writer/parser for history exports
+ * (comma-separated, "\n" line endings, fields quoted when needed)
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a field when it contains a comma, quote or line break
+ * e.g., 'Vault "A", v2' -> '"Vault ""A"", v2"'
+ */
+function formatField(value: CsvValue): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from a header row and data rows
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(formatField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Parse CSV text into one record per data row, keyed by the header row
+ * Empty fields are returned as ""; throws on unterminated quotes or ragged rows.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...data] = rows.filter(r => !(r.length === 1 && r[0] === ""));
+  if (!header) {
+    return [];
+  }
+  return data.map((values, index) => {
+    if (values.length !== header.length) {
+      throw new Error(`Row ${index + 2}: expected ${header.length} fields, got ${values.length}`);
+    }
+    return Object.fromEntries(header.map((name, column) => [name, values[column]]));
+  });
+}
@@ -0,0 +1,27 @@
+import { assertEquals, assertThrows } from "std/assert/mod.ts";
+import { parseCsv, toCsv } from "./csv.ts";
+
+Deno.test("toCsv quotes fields with commas, quotes and line breaks", () => {
+  assertEquals(
+    toCsv(["name", "apy", "meta"], [[`Vault "A", v2`, 5.5, null], ["line\nbreak", 0, true]]),
+    `name,apy,meta\n"Vault ""A"", v2",5.5,\n"line\nbreak",0,true\n`,
+  );
+});
+
+Deno.test("parseCsv reads what toCsv writes", () => {
+  const csv = toCsv(["a", "b"], [[`x,"y"`, ""], ["{\"k\":[1,2]}", "multi\nline"]]);
+  assertEquals(parseCsv(csv), [
+    { a: `x,"y"`, b: "" },
+    { a: `{"k":[1,2]}`, b: "multi\nline" },
+  ]);
+});
+
+Deno.test("parseCsv accepts CRLF and a missing trailing newline", () => {
+  assertEquals(parseCsv("a,b\r\n1,2\r\n3,4"), [{ a: "1", b: "2" }, { a: "3", b: "4" }]);
+  assertEquals(parseCsv(""), []);
+});
+
+Deno.test("parseCsv rejects ragged rows and unterminated quotes", () => {
+  assertThrows(() => parseCsv("a,b\n1\n"), Error, "Row 2");
+  assertThrows(() => parseCsv(`a\n"open\n`), Error, "Unterminated");
+});
@@ -0,0 +1,188 @@
+/**
+ * Cross-Source Deduplication
+ * Several sources report overlapping pools (e.g. DefiLlama and Swap Coffee
+ * both list Tonstakers and EVAA). This stage keeps one copy of each pool,
+ * choosing the source by the configured priority, and records which source won.
+ *
+ * Matching, in order:
+ * 1. Protocol ownership - protocols listed in `sourcePriority.protocols` are
+ *    owned entirely by the first listed source that reports them
+ * 2. Pool address - pools with the same contract address
+ * 3. Pool identity - same normalized protocol + asset + poolMeta
+ */
+
+import type { DedupDecision, YieldOpportunity } from "../types/yields.ts";
+
+/**
+ * Pools returned by a single source
+ */
+export interface SourceYields {
+  sourceId: string;
+  yields: YieldOpportunity[];
+}
+
+/**
+ * Source priority rules (see config.sourcePriority)
+ */
+export interface SourcePriority {
+  default: readonly string[];
+  protocols: Record<string, readonly string[]>;
+}
+
+interface Candidate {
+  sourceId: string;
+  pool: YieldOpportunity;
+}
+
+/**
+ * Normalize a name for matching: lowercase alphanumerics only
+ * e.g., "Ston.fi" -> "stonfi", "USD₮" -> "usdt"
+ */
+function normalize(value: string): string {
+  return value.replace(/USD₮/g, "USDT").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Find the protocol priority rule that applies to a protocol, if any
+ * Rules match by prefix so "bemo" also covers "Bemo V2"
+ */
+function findProtocolRule(
+  protocol: string,
+  priority: SourcePriority,
+): { key: string; order: readonly string[] } | null {
+  const normalized = normalize(protocol);
+  for (const [key, order] of Object.entries(priority.protocols)) {
+    if (normalized.startsWith(key)) {
+      return { key, order };
+    }
+  }
+  return null;
+}
+
+/**
+ * Rank of a source for a pool (lower wins); unknown sources rank last
+ */
+function sourceRank(sourceId: string, pool: YieldOpportunity, priority: SourcePriority): number {
+  const order = findProtocolRule(pool.source, priority)?.order ?? priority.default;
+  const index = order.indexOf(sourceId);
+  return index === -1 ? order.length : index;
+}
+
+/**
+ * Build the match key for a pool
+ */
+function poolKey(pool: YieldOpportunity): { key: string; matchedBy: "address" | "pool" } {
+  if (pool.address) {
+    return { key: `address:${pool.address.toLowerCase()}`, matchedBy: "address" };
+  }
+  const meta = pool.poolMeta ? normalize(pool.poolMeta) : "default";
+  return {
+    key: `pool:${normalize(pool.source)}|${normalize(pool.asset)}|${meta}`,
+    matchedBy: "pool",
+  };
+}
+
+/**
+ * Drop pools of protocols owned by a higher-priority source
+ */
+function applyProtocolOwnership(
+  candidates: Candidate[],
+  priority: SourcePriority,
+  decisions: DedupDecision[],
+): Candidate[] {
+  // Which sources report each rule-covered protocol
+  const reporters = new Map<string, { protocol: string; order: readonly string[]; sources: Set<string> }>();
+  for (const { sourceId, pool } of candidates) {
+    const rule = findProtocolRule(pool.source, priority);
+    if (!rule) continue;
+    const entry = reporters.get(rule.key) ?? { protocol: pool.source, order: rule.order, sources: new Set() };
+    entry.sources.add(sourceId);
+    reporters.set(rule.key, entry);
+  }
+
+  // Pick the owner per protocol: first source in the rule that actually reported it
+  const owners = new Map<string, string>();
+  for (const [key, { protocol, order, sources }] of reporters) {
+    const owner = order.find(id => sources.has(id));
+    if (!owner) continue;
+    owners.set(key, owner);
+
+    // Only sources listed in the rule lose their pools to the owner
+    const dropped = [...sources].filter(id => id !== owner && order.includes(id));
+    if (dropped.length > 0) {
+      decisions.push({ key: `protocol:${key}`, matchedBy: "protocol", protocol, winner: owner, dropped });
+    }
+  }
+
+  return candidates.filter(({ sourceId, pool }) => {
+    const rule = findProtocolRule(pool.source, priority);
+    if (!rule) return true;
+    const owner = owners.get(rule.key);
+    return sourceId === owner || !rule.order.includes(sourceId);
+  });
+}
+
+/**
+ * Drop pools that a higher-priority source also reports
+ * Pools from the same source are never deduplicated against each other
+ */
+function applyPoolMatching(
+  candidates: Candidate[],
+  priority: SourcePriority,
+  decisions: DedupDecision[],
+): Candidate[] {
+  const groups = new Map<string, { matchedBy: "address" | "pool"; members: Candidate[] }>();
+  for (const candidate of candidates) {
+    const { key, matchedBy } = poolKey(candidate.pool);
+    const group = groups.get(key) ?? { matchedBy, members: [] };
+    group.members.push(candidate);
+    groups.set(key, group);
+  }
+
+  const droppedCandidates = new Set<Candidate>();
+  for (const [key, { matchedBy, members }] of groups) {
+    const sources = new Set(members.map(m => m.sourceId));
+    if (sources.size < 2) continue;
+
+    const winner = [...sources].sort((a, b) =>
+      sourceRank(a, members[0].pool, priority) - sourceRank(b, members[0].pool, priority)
+    )[0];
+
+    for (const member of members) {
+      if (member.sourceId !== winner) droppedCandidates.add(member);
+    }
+    decisions.push({
+      key,
+      matchedBy,
+      protocol: members[0].pool.source,
+      winner,
+      dropped: [...sources].filter(id => id !== winner),
+    });
+  }
+
+  return candidates.filter(candidate => !droppedCandidates.has(candidate));
+}
+
+/**
+ * Deduplicate pools reported by multiple sources
+ * Returns the surviving pools and a record of every overlap resolved
+ */
+export function deduplicateYields(
+  results: SourceYields[],
+  priority: SourcePriority,
+): { yields: YieldOpportunity[]; decisions: DedupDecision[] } {
+  const decisions: DedupDecision[] = [];
+  const candidates: Candidate[] = results.flatMap(({ sourceId, yields }) =>
+    yields.map(pool => ({ sourceId, pool }))
+  );
+
+  const owned = applyProtocolOwnership(candidates, priority, decisions);
+  const unique = applyPoolMatching(owned, priority, decisions);
+
+  const droppedCount = candidates.length - unique.length;
+  if (droppedCount > 0) {
+    console.log(`Deduplication: dropped ${droppedCount} duplicate pools (${decisions.length} overlaps)`);
+  }
+
+  return { yields: unique.map(c => c.pool), decisions };
+}
@@ -0,0 +1,106 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { deduplicateYields, type SourcePriority } from "./dedup.ts";
+import { createPool } from "../testing/pools.ts";
+
+const PRIORITY: SourcePriority = {
+  default: ["defillama", "swapcoffee", "merkl"],
+  protocols: { evaa: ["swapcoffee", "defillama"] },
+};
+
+/** Surviving pools as "dataSource protocol asset [meta]" */
+function survivors(yields: ReturnType<typeof deduplicateYields>["yields"]): string[] {
+  return yields.map(pool => `${pool.dataSource} ${pool.source} ${pool.asset}${pool.poolMeta ? ` ${pool.poolMeta}` : ""}`);
+}
+
+Deno.test("a pool reported twice keeps the source ranked first by default", () => {
+  const { yields, decisions } = deduplicateYields([
+    // Input order doesn't matter, only the priority list
+    { sourceId: "swapcoffee", yields: [createPool({ source: "STON.fi", asset: "USD₮", dataSource: "Swap Coffee" })] },
+    { sourceId: "defillama", yields: [createPool({ source: "Ston.fi", asset: "USDT", dataSource: "DefiLlama" })] },
+  ], PRIORITY);
+
+  assertEquals(survivors(yields), ["DefiLlama Ston.fi USDT"]);
+  assertEquals(decisions, [{
+    key: "pool:stonfi|usdt|default",
+    matchedBy: "pool",
+    protocol: "STON.fi",
+    winner: "defillama",
+    dropped: ["swapcoffee"],
+  }]);
+});
+
+Deno.test("a protocol with a rule is owned by the first listed source that reports it", () => {
+  const { yields, decisions } = deduplicateYields([
+    {
+      sourceId: "defillama",
+      yields: [
+        createPool({ source: "EVAA", asset: "USDT", dataSource: "DefiLlama" }),
+        // Dropped too, although Swap Coffee doesn't list it
+        createPool({ source: "EVAA", asset: "USDC", dataSource: "DefiLlama" }),
+      ],
+    },
+    { sourceId: "swapcoffee", yields: [createPool({ source: "EVAA", asset: "USDT", dataSource: "Swap Coffee" })] },
+    // Sources outside the rule keep their pools
+    { sourceId: "merkl", yields: [createPool({ source: "EVAA", asset: "tsTON", dataSource: "Merkl" })] },
+  ], PRIORITY);
+
+  assertEquals(survivors(yields), ["Swap Coffee EVAA USDT", "Merkl EVAA tsTON"]);
+  assertEquals(decisions, [{
+    key: "protocol:evaa",
+    matchedBy: "protocol",
+    protocol: "EVAA",
+    winner: "swapcoffee",
+    dropped: ["defillama"],
+  }]);
+});
+
+Deno.test("without the first listed source, the next one owns the protocol and outranks unlisted sources", () => {
+  const { yields, decisions } = deduplicateYields([
+    { sourceId: "defillama", yields: [createPool({ source: "EVAA", asset: "USDT", dataSource: "DefiLlama" })] },
+    { sourceId: "merkl", yields: [createPool({ source: "EVAA", asset: "USDT", dataSource: "Merkl" })] },
+  ], PRIORITY);
+
+  // Merkl isn't in the rule, so the pools meet in identity matching, ranked by the rule
+  assertEquals(survivors(yields), ["DefiLlama EVAA USDT"]);
+  assertEquals(decisions.map(d => [d.matchedBy, d.winner, d.dropped]), [["pool", "defillama", ["merkl"]]]);
+});
+
+Deno.test("pools with an address match by address, not by protocol, asset and meta", () => {
+  const { yields, decisions } = deduplicateYields([
+    {
+      sourceId: "defillama",
+      yields: [
+        createPool({ source: "DeDust", asset: "TON-USDT", address: "0xABC", dataSource: "DefiLlama" }),
+        createPool({ source: "DeDust", asset: "TON-USDC", address: "0xDEF", dataSource: "DefiLlama" }),
+      ],
+    },
+    {
+      sourceId: "swapcoffee",
+      yields: [
+        // Same address under another name: a duplicate
+        createPool({ source: "DeDust.io", asset: "USDT-TON", address: "0xabc", dataSource: "Swap Coffee" }),
+        // Same protocol, asset and meta but another address: a different pool
+        createPool({ source: "DeDust", asset: "TON-USDC", address: "0x123", dataSource: "Swap Coffee" }),
+      ],
+    },
+  ], PRIORITY);
+
+  assertEquals(survivors(yields), ["DefiLlama DeDust TON-USDT", "DefiLlama DeDust TON-USDC", "Swap Coffee DeDust TON-USDC"]);
+  assertEquals(decisions.map(d => [d.key, d.matchedBy, d.winner]), [["address:0xabc", "address", "defillama"]]);
+});
+
+Deno.test("pools differing in meta and pools from one source are never merged", () => {
+  const { yields, decisions } = deduplicateYields([
+    {
+      sourceId: "defillama",
+      yields: [
+        createPool({ source: "Storm", asset: "USDT", poolMeta: "Vault", dataSource: "DefiLlama" }),
+        createPool({ source: "Storm", asset: "USDT", poolMeta: "Vault", dataSource: "DefiLlama" }),
+      ],
+    },
+    { sourceId: "swapcoffee", yields: [createPool({ source: "Storm", asset: "USDT", poolMeta: "LP", dataSource: "Swap Coffee" })] },
+  ], PRIORITY);
+
+  assertEquals(yields.length, 3);
+  assertEquals(decisions, []);
+});
@@ -1,15 +1,13 @@
 import { config } from "../config.ts";
 import type {
-  AssetType,
   DefiLlamaPool,
   DefiLlamaResponse,
-  GroupedYields,
-  OrganizedYields,
-  ProtocolGroup,
   YieldOpportunity,
+  YieldSource,
 } from "../types/yields.ts";
 import {
   classifyAsset,
+  createYieldId,
   formatProtocolName,
   getProtocolUrl,
   isSingleAsset,
@@ -18,18 +16,18 @@ import {
   isExcludedAsset,
   isTonUsdtPool,
 } from "./protocols.ts";
+import { fetchJson } from "./http.ts";
 
 /**
- * Fetch all yield pools from DefiLlama API
+ * Fetch all yield pools (every chain) from DefiLlama API
+ * Shared by the DefiLlama, YieldFi and Ethena sources; the HTTP cache
+ * makes sure the multi-megabyte payload is downloaded once per run
  */
-async function fetchAllPools(): Promise<DefiLlamaPool[]> {
-  const response = await fetch(config.defiLlamaApiUrl, { signal: AbortSignal.timeout(20000) });
-  
-  if (!response.ok) {
-    throw new Error(`DefiLlama API error: ${response.status} ${response.statusText}`);
-  }
-  
-  const data: DefiLlamaResponse = await response.json();
+export async function fetchDefiLlamaPools(): Promise<DefiLlamaPool[]> {
+  const data = await fetchJson<DefiLlamaResponse>(config.defiLlamaApiUrl, {
+    name: "DefiLlama",
+    timeoutMs: 20000,
+  });
   return data.data;
 }
 
@@ -67,14 +65,22 @@ function cleanPoolMeta(poolMeta: string | null): string | null {
 /**
  * Transform DefiLlama pool to our YieldOpportunity format
  */
-function transformPool(pool: DefiLlamaPool): YieldOpportunity {
-  const assetType = classifyAsset(pool.symbol);
+function transformPool(pool: DefiLlamaPool, fetchedAt: string): YieldOpportunity {
+  // A single underlying token can be matched by address
+  const tokenAddress = pool.underlyingTokens?.length === 1 ? pool.underlyingTokens[0] : undefined;
+  const assetType = classifyAsset(pool.symbol, tokenAddress);
   const apyBase = pool.apyBase ?? 0;
   const apyReward = pool.apyReward ?? null;
   const apyTotal = pool.apy ?? apyBase + (apyReward ?? 0);
   const isTonUsdt = isTonUsdtPool(pool.symbol);
   
   return {
+    id: createYieldId("DefiLlama", "TON", pool.pool),
+    chain: "TON",
+    upstreamId: pool.pool,
+    dataSource: "DefiLlama",
+    fetchedAt,
+    tvlEstimated: false,
     assetType,
     source: formatProtocolName(pool.project),
     sourceUrl: getProtocolUrl(pool.project, pool.url),
@@ -133,164 +139,37 @@ function filterTonUsdtOnly(pools: YieldOpportunity[]): YieldOpportunity[] {
 }
 
 /**
- * Sort pools by TVL (highest first)
- */
-function sortByTvl(pools: YieldOpportunity[]): YieldOpportunity[] {
-  return [...pools].sort((a, b) => b.tvlUsd - a.tvlUsd);
-}
-
-/**
- * Sort pools by APY (highest first)
- */
-function sortByApy(pools: YieldOpportunity[]): YieldOpportunity[] {
-  return [...pools].sort((a, b) => b.apyTotal - a.apyTotal);
-}
-
-
-/**
- * Group yields by asset type
- */
-function groupByAssetType(pools: YieldOpportunity[]): GroupedYields {
-  const grouped: GroupedYields = {
-    TON: [],
-    STABLE: [],
-    BTC: [],
-    ETH: [],
-    TON_USDT: [],
-  };
-  
-  for (const pool of pools) {
-    // TON-USDT pools go in separate category
-    if (pool.isTonUsdtPool) {
-      grouped.TON_USDT.push(pool);
-    } else {
-      grouped[pool.assetType].push(pool);
-    }
-  }
-  
-  // Sort each group by TVL
-  grouped.TON = sortByTvl(grouped.TON);
-  grouped.STABLE = sortByTvl(grouped.STABLE);
-  grouped.BTC = sortByTvl(grouped.BTC);
-  grouped.ETH = sortByTvl(grouped.ETH);
-  grouped.TON_USDT = sortByTvl(grouped.TON_USDT);
-  
-  return grouped;
-}
-
-/**
- * Group yields by protocol within each asset category
- */
-function groupByProtocol(yields: YieldOpportunity[]): ProtocolGroup[] {
-  const protocolMap = new Map<string, YieldOpportunity[]>();
-  
-  for (const yield_ of yields) {
-    const existing = protocolMap.get(yield_.source) || [];
-    existing.push(yield_);
-    protocolMap.set(yield_.source, existing);
-  }
-  
-  // Convert to array and sort by total TVL of protocol
-  const groups: ProtocolGroup[] = [];
-  for (const [protocol, protocolYields] of protocolMap) {
-    const totalTvl = protocolYields.reduce((sum, y) => sum + y.tvlUsd, 0);
-    groups.push({
-      protocol,
-      protocolUrl: protocolYields[0].sourceUrl,
-      yields: sortByTvl(protocolYields),
-    });
-  }
-  
-  // Sort protocol groups by total TVL
-  groups.sort((a, b) => {
-    const tvlA = a.yields.reduce((sum, y) => sum + y.tvlUsd, 0);
-    const tvlB = b.yields.reduce((sum, y) => sum + y.tvlUsd, 0);
-    return tvlB - tvlA;
-  });
-  
-  return groups;
-}
-
-/**
- * Organize yields by asset type, then by protocol
- */
-function organizeYields(grouped: GroupedYields): OrganizedYields {
-  return {
-    TON: groupByProtocol(grouped.TON),
-    STABLE: groupByProtocol(grouped.STABLE),
-    BTC: groupByProtocol(grouped.BTC),
-    ETH: groupByProtocol(grouped.ETH),
-    TON_USDT: groupByProtocol(grouped.TON_USDT),
-  };
-}
-
-/**
- * Get top N yields by APY across all categories
- * Excludes TON-USDT pools (IL risk)
- */
-export function getTopYields(grouped: GroupedYields, limit: number = 5): YieldOpportunity[] {
-  const allYields = [...grouped.TON, ...grouped.STABLE, ...grouped.BTC, ...grouped.ETH];
-  // Exclude TON-USDT pools (IL risk) and Snap (no TON wallet interface yet)
-  const filtered = allYields.filter(y => y.source !== "Snap");
-  return sortByApy(filtered).slice(0, limit);
-}
-
-/**
- * Protocols covered by Swap Coffee API
- * DefiLlama will exclude these to avoid duplicates
- * 
- * NOTE: EVAA is intentionally NOT excluded from DefiLlama because:
- * - Swap Coffee has incomplete EVAA coverage (missing USDE and other pools)
- * - DefiLlama has all 16 EVAA pools (100% coverage)
- * 
- * NOTE: Moon is excluded entirely as it's no longer live on TON
+ * Protocols that are no longer live on TON
  */
-const SWAP_COFFEE_PROTOCOLS = [
-  "tonstakers",
-  "bemo",
-  "hipo",
-  "kton",
-  "stakee",
-  "torch-finance",
-  // "evaa", "evaa-protocol" - NOT excluded, using DefiLlama for complete EVAA data
-  "storm-trade",
-  "ston-fi",
-  "ston.fi",
-  "stonfi",
-  "dedust",
-  "swap-coffee",
-  "swap.coffee",
-  "tonco",
-  "bidask",
-  "moon", // Excluded - no longer live on TON
-  "daolama",
+const DELISTED_PROJECTS = [
+  "moon",
 ];
 
 /**
- * Fetch and process all TON yields from DefiLlama only
- * Excludes protocols that are covered by Swap Coffee API
- * Returns yields grouped by asset type
+ * Fetch and process all TON yields from DefiLlama
+ * Overlaps with other sources are resolved later by the deduplication stage
  */
-async function fetchDefiLlamaYields(): Promise<GroupedYields> {
-  console.log("Fetching yields from DefiLlama (excluding Swap Coffee protocols)...");
+export async function fetchDefiLlamaYields(): Promise<YieldOpportunity[]> {
+  console.log("Fetching yields from DefiLlama...");
   
   // Fetch all pools
-  const allPools = await fetchAllPools();
+  const allPools = await fetchDefiLlamaPools();
+  const fetchedAt = new Date().toISOString();
   console.log(`Fetched ${allPools.length} total pools`);
   
   // Filter to TON chain only
   const tonPools = filterTonPools(allPools);
   console.log(`Found ${tonPools.length} TON pools`);
   
-  // Exclude protocols covered by Swap Coffee
-  const defiLlamaOnlyPools = tonPools.filter((pool) => {
+  // Exclude delisted protocols
+  const livePools = tonPools.filter((pool) => {
     const projectLower = pool.project.toLowerCase();
-    return !SWAP_COFFEE_PROTOCOLS.some(swapProj => projectLower.includes(swapProj));
+    return !DELISTED_PROJECTS.some(project => projectLower.includes(project));
   });
-  console.log(`${defiLlamaOnlyPools.length} pools after excluding Swap Coffee protocols`);
+  console.log(`${livePools.length} pools after excluding delisted protocols`);
   
   // Transform to our format
-  const yields = defiLlamaOnlyPools.map(transformPool);
+  const yields = livePools.map(pool => transformPool(pool, fetchedAt));
   
   // Filter valid pools
   const validYields = filterValidPools(yields);
@@ -301,127 +180,17 @@ async function fetchDefiLlamaYields(): Promise<GroupedYields> {
   const correlatedYields = filterCorrelatedOnly(validYields);
   console.log(`${correlatedYields.length} correlated pools, ${tonUsdtYields.length} TON-USDT pools`);
   
-  // Combine both types for grouping
-  const allYields = [...correlatedYields, ...tonUsdtYields];
-  
-  // Group by asset type (TON-USDT will be in separate category)
-  const grouped = groupByAssetType(allYields);
-  console.log(`Grouped: ${grouped.TON.length} TON, ${grouped.STABLE.length} STABLE, ${grouped.BTC.length} BTC, ${grouped.ETH.length} ETH, ${grouped.TON_USDT.length} TON-USDT`);
-  
-  return grouped;
-}
-
-/**
- * Fetch and process all TON yields from DefiLlama, Merkl, and Morpho
- * Returns yields grouped by asset type
- */
-export async function fetchTonYields(): Promise<GroupedYields> {
-  // Import services dynamically to avoid circular dependencies
-  const { fetchMerklYields } = await import("./merkl.ts");
-  const { fetchMorphoYields } = await import("./morpho.ts");
-  const { fetchEulerYields } = await import("./euler.ts");
-  const { fetchYieldFiYields } = await import("./yieldfi.ts");
-  const { fetchEthenaYields } = await import("./ethena.ts");
-  const { fetchSwapCoffeeYields } = await import("./swapcoffee.ts");
-  const { fetchMidasVaultYield } = await import("./midas.ts");
-
-  // Fetch from all sources in parallel
-  const [defiLlamaYields, merklYields, morphoYields, eulerYields, yieldFiYields, ethenaYields, swapCoffeeYields, midasYield] = await Promise.all([
-    fetchDefiLlamaYields(),
-    fetchMerklYields(),
-    fetchMorphoYields(),
-    fetchEulerYields(),
-    fetchYieldFiYields(),
-    fetchEthenaYields(),
-    fetchSwapCoffeeYields(),
-    fetchMidasVaultYield(),
-  ]);
-  
-  // Merge Merkl yields into the grouped structure
-  for (const yield_ of merklYields) {
-    if (yield_.isTonUsdtPool) {
-      defiLlamaYields.TON_USDT.push(yield_);
-    } else {
-      defiLlamaYields[yield_.assetType].push(yield_);
-    }
-  }
-  
-  // Merge Morpho yields into the grouped structure
-  for (const yield_ of morphoYields) {
-    if (yield_.isTonUsdtPool) {
-      defiLlamaYields.TON_USDT.push(yield_);
-    } else {
-      defiLlamaYields[yield_.assetType].push(yield_);
-    }
-  }
-  
-  // Merge Euler yields into the grouped structure
-  for (const yield_ of eulerYields) {
-    if (yield_.isTonUsdtPool) {
-      defiLlamaYields.TON_USDT.push(yield_);
-    } else {
-      defiLlamaYields[yield_.assetType].push(yield_);
-    }
-  }
-  
-  // Merge YieldFi yields into the grouped structure
-  for (const yield_ of yieldFiYields) {
-    if (yield_.isTonUsdtPool) {
-      defiLlamaYields.TON_USDT.push(yield_);
-    } else {
-      defiLlamaYields[yield_.assetType].push(yield_);
-    }
-  }
-  
-  // Merge Ethena yields into the grouped structure
-  for (const yield_ of ethenaYields) {
-    if (yield_.isTonUsdtPool) {
-      defiLlamaYields.TON_USDT.push(yield_);
-    } else {
-      defiLlamaYields[yield_.assetType].push(yield_);
-    }
-  }
-
-  // Merge Swap Coffee yields into the grouped structure
-  // No deduplication needed since DefiLlama already excludes Swap Coffee protocols
-  // EXCEPT EVAA which we intentionally kept in DefiLlama for USDE coverage
-  for (const yield_ of swapCoffeeYields) {
-    if (yield_.isTonUsdtPool) {
-      defiLlamaYields.TON_USDT.push(yield_);
-    } else {
-      defiLlamaYields[yield_.assetType].push(yield_);
-    }
-  }
-  
-  // Merge Midas vault (custom hardcoded yield) into STABLE
-  if (midasYield) {
-    defiLlamaYields.STABLE.push(midasYield);
-  }
-
-  // Re-sort after merging
-  defiLlamaYields.TON = sortByTvl(defiLlamaYields.TON);
-  defiLlamaYields.STABLE = sortByTvl(defiLlamaYields.STABLE);
-  defiLlamaYields.BTC = sortByTvl(defiLlamaYields.BTC);
-  defiLlamaYields.ETH = sortByTvl(defiLlamaYields.ETH);
-  defiLlamaYields.TON_USDT = sortByTvl(defiLlamaYields.TON_USDT);
-  
-  console.log(`Total after merge: ${defiLlamaYields.TON.length} TON, ${defiLlamaYields.STABLE.length} STABLE, ${defiLlamaYields.BTC.length} BTC, ${defiLlamaYields.ETH.length} ETH, ${defiLlamaYields.TON_USDT.length} TON-USDT`);
-  
-  return defiLlamaYields;
+  return [...correlatedYields, ...tonUsdtYields];
 }
 
 /**
- * Fetch yields organized by protocol within each category
+ * DefiLlama yield source adapter
  */
-export async function fetchOrganizedYields(): Promise<OrganizedYields> {
-  const grouped = await fetchTonYields();
-  return organizeYields(grouped);
-}
-
-/**
- * Fetch yields and return as flat array (for testing/debugging)
- */
-export async function fetchTonYieldsFlat(): Promise<YieldOpportunity[]> {
-  const grouped = await fetchTonYields();
-  return [...grouped.TON, ...grouped.STABLE, ...grouped.BTC];
-}
+export const defiLlamaSource: YieldSource = {
+  id: "defillama",
+  name: "DefiLlama",
+  fetch: fetchDefiLlamaYields,
+  attribution: { name: "DefiLlama", url: "https://defillama.com/" },
+  enabled: true,
+  timeoutMs: 30000,
+};
@@ -1,24 +1,17 @@
 import {
   classifyAsset,
+  createYieldId,
   getProtocolUrl,
 } from "./protocols.ts";
-import type { YieldOpportunity, DefiLlamaPool } from "../types/yields.ts";
-
-// DefiLlama API URL
-const DEFILLAMA_API_URL = "https://yields.llama.fi/pools";
+import type { YieldOpportunity, YieldSource, DefiLlamaPool } from "../types/yields.ts";
+import { fetchDefiLlamaPools } from "./defillama.ts";
 
 // Fetch Ethena pools from DefiLlama
 async function fetchEthenaPools(): Promise<DefiLlamaPool[]> {
-  const response = await fetch(DEFILLAMA_API_URL, { signal: AbortSignal.timeout(20000) });
-  
-  if (!response.ok) {
-    throw new Error(`DefiLlama API error: ${response.status} ${response.statusText}`);
-  }
-  
-  const data = await response.json();
+  const pools = await fetchDefiLlamaPools();
   
   // Filter for Ethena project pools with sUSDE symbol
-  const ethenaPools = data.data.filter((pool: DefiLlamaPool) => 
+  const ethenaPools = pools.filter((pool) => 
     pool.project?.toLowerCase() === "ethena-usde" &&
     pool.symbol?.toUpperCase() === "SUSDE"
   );
@@ -52,12 +45,19 @@ function aggregateEthena(pools: DefiLlamaPool[]): { apy: number, tvl: number } |
 function transformEthenaToken(
   apy: number,
   tvl: number,
+  fetchedAt: string,
 ): YieldOpportunity {
   // tsUSDE on TON has the same APY as sUSDE (same underlying asset)
   const symbol = "tsUSDE";
   const assetType = classifyAsset(symbol); // Should be STABLE
 
   return {
+    id: createYieldId("DefiLlama", "TON", symbol),
+    chain: "TON",
+    upstreamId: symbol,
+    dataSource: "DefiLlama",
+    fetchedAt,
+    tvlEstimated: true, // sUSDE TVL summed across chains
     assetType,
     source: "Ethena",
     sourceUrl: getProtocolUrl("ethena"),
@@ -74,38 +74,44 @@ function transformEthenaToken(
 export async function fetchEthenaYields(): Promise<YieldOpportunity[]> {
   console.log("Fetching yields from Ethena (DefiLlama, sUSDE APY for tsUSDE)...");
 
-  try {
-    // Fetch all Ethena sUSDE pools from DefiLlama
-    const pools = await fetchEthenaPools();
-    
-    if (pools.length === 0) {
-      console.log("No Ethena sUSDE pools found on DefiLlama");
-      return [];
-    }
-    
-    // Aggregate sUSDE data across all chains
-    const aggregated = aggregateEthena(pools);
-    
-    if (!aggregated) {
-      console.log("Failed to aggregate Ethena data");
-      return [];
-    }
-    
-    const { apy, tvl } = aggregated;
-    
-    if (apy < 0.1) {
-      console.log(`Skipping Ethena tsUSDE - APY too low (${apy}%)`);
-      return [];
-    }
-    
-    // Transform to YieldOpportunity format
-    const yieldOpp = transformEthenaToken(apy, tvl);
-    
-    console.log(`✓ tsUSDE (sUSDE APY): ${apy.toFixed(2)}% APY, $${(tvl / 1000000).toFixed(2)}M TVL (aggregated across all chains)`);
-    
-    return [yieldOpp];
-  } catch (error) {
-    console.error("Failed to fetch Ethena yields:", error);
+  // Fetch all Ethena sUSDE pools from DefiLlama
+  const pools = await fetchEthenaPools();
+  const fetchedAt = new Date().toISOString();
+  
+  if (pools.length === 0) {
+    console.log("No Ethena sUSDE pools found on DefiLlama");
     return [];
   }
+  
+  // Aggregate sUSDE data across all chains
+  const aggregated = aggregateEthena(pools);
+  
+  if (!aggregated) {
+    console.log("Failed to aggregate Ethena data");
+    return [];
+  }
+  
+  const { apy, tvl } = aggregated;
+  
+  if (apy < 0.1) {
+    console.log(`Skipping Ethena tsUSDE - APY too low (${apy}%)`);
+    return [];
+  }
+  
+  // Transform to YieldOpportunity format
+  const yieldOpp = transformEthenaToken(apy, tvl, fetchedAt);
+  
+  console.log(`✓ tsUSDE (sUSDE APY): ${apy.toFixed(2)}% APY, $${(tvl / 1000000).toFixed(2)}M TVL (aggregated across all chains)`);
+  
+  return [yieldOpp];
 }
+
+// Ethena yield source adapter (data comes from DefiLlama)
+export const ethenaSource: YieldSource = {
+  id: "ethena",
+  name: "Ethena",
+  fetch: fetchEthenaYields,
+  attribution: { name: "DefiLlama", url: "https://defillama.com/" },
+  enabled: true,
+  timeoutMs: 30000,
+};
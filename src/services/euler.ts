@@ -1,13 +1,16 @@
 import { ethers } from "ethers";
 import {
   classifyAsset,
+  createYieldId,
   formatProtocolName,
   getProtocolUrl,
   isCorrelatedPair,
   pairBelongsToCategory,
   isSingleAsset,
 } from "./protocols.ts";
-import type { YieldOpportunity } from "../types/yields.ts";
+import type { YieldOpportunity, YieldSource } from "../types/yields.ts";
+import { getTokenKey, getUsdPrices, type PriceToken } from "./pricing.ts";
+import { createRpcProvider } from "./transport.ts";
 
 // TAC RPC endpoint
 const TAC_RPC_URL = "https://rpc.ankr.com/tac";
@@ -431,22 +434,44 @@ const eulerVaultLensABI = [
   },
 ];
 
-// Helper to estimate TVL from token balance
-function estimateTVL(
+// Interest rate entry of a vault (some decodings nest the fields under "_")
+interface EulerRateInfo {
+  supplyAPY?: bigint;
+  _?: { supplyAPY?: bigint };
+}
+
+// Fields of the lens's VaultInfoFull we read (decoded with toObject({ deep: true }))
+interface EulerVault {
+  vault: string;
+  vaultSymbol: string;
+  asset: string;
+  assetSymbol: string;
+  assetDecimals: bigint;
+  totalAssets: bigint;
+  irmInfo?: {
+    // An array or a single entry, depending on the decoding
+    interestRateInfo?: EulerRateInfo[] | EulerRateInfo;
+  };
+}
+
+// Convert a raw token balance to whole tokens
+function toTokenAmount(
   balance: string,
   decimals: number,
 ): number {
   try {
     const balanceBigInt = BigInt(balance);
-    const formatted = Number(ethers.formatUnits(balanceBigInt, decimals));
-    // Since we don't have USD prices, just return the token amount
-    // This is a proxy - not accurate USD value
-    return formatted;
+    return Number(ethers.formatUnits(balanceBigInt, decimals));
   } catch {
     return 0;
   }
 }
 
+// Pricing lookup for a vault's underlying asset on TAC
+function getAssetToken(vault: EulerVault): PriceToken {
+  return { symbol: extractAssetSymbol(vault.assetSymbol), chain: "tac", address: vault.asset };
+}
+
 // Convert bigint APY (25 decimals) to percentage
 function formatSupplyAPY(supplyAPY: bigint): number {
   try {
@@ -466,7 +491,8 @@ function extractAssetSymbol(assetSymbol: string): string {
 }
 
 // Transform Euler vault to YieldOpportunity
-function transformEulerVault(vault: any): YieldOpportunity | null {
+// Vaults whose asset has no USD price are skipped
+function transformEulerVault(vault: EulerVault, prices: Map<string, number>, fetchedAt: string): YieldOpportunity | null {
   try {
     // Extract interest rate info
     const irmInfo = vault.irmInfo;
@@ -477,7 +503,7 @@ function transformEulerVault(vault: any): YieldOpportunity | null {
     }
 
     // interestRateInfo can be either an array or an object
-    let rateInfo;
+    let rateInfo: EulerRateInfo;
     if (Array.isArray(irmInfo.interestRateInfo)) {
       // Array format - get first element
       if (irmInfo.interestRateInfo.length === 0) {
@@ -523,20 +549,30 @@ function transformEulerVault(vault: any): YieldOpportunity | null {
     }
 
     // Classify asset type
-    const assetType = classifyAsset(asset);
+    const assetType = classifyAsset(asset, vault.asset);
 
-    // Estimate TVL (not accurate USD, just token amount)
-    const tvlProxy = estimateTVL(
+    // TVL in USD = total assets × asset price
+    const price = prices.get(getTokenKey(getAssetToken(vault)));
+    if (price === undefined) {
+      return null;
+    }
+    const tvlUsd = toTokenAmount(
       vault.totalAssets.toString(),
       Number(vault.assetDecimals),
-    );
+    ) * price;
 
     // Filter low TVL
-    if (tvlProxy < 10) {
+    if (tvlUsd < 100) {
       return null;
     }
 
     return {
+      id: createYieldId("RPC", "TAC", vault.vault),
+      chain: "TAC",
+      upstreamId: vault.vault,
+      dataSource: "RPC",
+      fetchedAt,
+      tvlEstimated: true, // Token amount × price
       assetType,
       source: "Euler",
       sourceUrl: getProtocolUrl("euler"),
@@ -545,7 +581,8 @@ function transformEulerVault(vault: any): YieldOpportunity | null {
       apyBase: apy,
       apyReward: null,
       apyTotal: apy,
-      tvlUsd: tvlProxy,
+      tvlUsd,
+      address: vault.vault,
     };
   } catch (error) {
     console.error(
@@ -573,85 +610,94 @@ function filterCorrelatedEulerYields(
 export async function fetchEulerYields(): Promise<YieldOpportunity[]> {
   console.log("Fetching yields from Euler contracts (TAC chain)...");
 
-  try {
-    // Create provider
-    const provider = new ethers.JsonRpcProvider(TAC_RPC_URL);
-
-    // Create contract instances
-    const governedPerspectiveContract = new ethers.Contract(
-      eulerPeripheryAddresses.governedPerspective,
-      eulerPerspectiveABI,
-      provider,
-    );
-
-    const vaultLensContract = new ethers.Contract(
-      eulerLensAddresses.vaultLens,
-      eulerVaultLensABI,
-      provider,
+  // Create provider
+  const provider = createRpcProvider(TAC_RPC_URL);
+
+  // Create contract instances
+  const governedPerspectiveContract = new ethers.Contract(
+    eulerPeripheryAddresses.governedPerspective,
+    eulerPerspectiveABI,
+    provider,
+  );
+
+  const vaultLensContract = new ethers.Contract(
+    eulerLensAddresses.vaultLens,
+    eulerVaultLensABI,
+    provider,
+  );
+
+  // Get verified vaults
+  console.log("Fetching verified vaults from Euler...");
+  const verifiedVaults = (await governedPerspectiveContract.verifiedArray()) as string[];
+  console.log(`Found ${verifiedVaults.length} verified Euler vaults`);
+
+  // Fetch vault info in batches of 5
+  const batchSize = 5;
+  const allVaults: EulerVault[] = [];
+
+  for (let i = 0; i < verifiedVaults.length; i += batchSize) {
+    const batch = verifiedVaults.slice(i, i + batchSize);
+    console.log(
+      `Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(verifiedVaults.length / batchSize)}...`,
     );
 
-    // Get verified vaults
-    console.log("Fetching verified vaults from Euler...");
-    const verifiedVaults = (await governedPerspectiveContract.verifiedArray()) as string[];
-    console.log(`Found ${verifiedVaults.length} verified Euler vaults`);
-
-    // Fetch vault info in batches of 5
-    const batchSize = 5;
-    const allYields: YieldOpportunity[] = [];
-
-    for (let i = 0; i < verifiedVaults.length; i += batchSize) {
-      const batch = verifiedVaults.slice(i, i + batchSize);
-      console.log(
-        `Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(verifiedVaults.length / batchSize)}...`,
-      );
-
-      const batchPromises = batch.map(async (vaultAddress) => {
-        try {
-          const vaultInfo = await vaultLensContract.getVaultInfoFull(
-            vaultAddress,
-          );
-          
-          // Convert to plain object using toObject if available
-          let vaultData;
-          if (typeof vaultInfo.toObject === 'function') {
-            vaultData = vaultInfo.toObject({ deep: true });
-          } else {
-            vaultData = vaultInfo;
-          }
-
-          return transformEulerVault(vaultData);
-        } catch (error) {
-          console.error(
-            `Error fetching vault ${vaultAddress}:`,
-            error,
-          );
-          return null;
+    const batchPromises = batch.map(async (vaultAddress): Promise<EulerVault | null> => {
+      try {
+        const vaultInfo = await vaultLensContract.getVaultInfoFull(
+          vaultAddress,
+        );
+        
+        // Convert to plain object using toObject if available
+        let vaultData: EulerVault;
+        if (typeof vaultInfo.toObject === 'function') {
+          vaultData = vaultInfo.toObject({ deep: true });
+        } else {
+          vaultData = vaultInfo;
         }
-      });
 
-      const batchResults = await Promise.all(batchPromises);
-      const validYields = batchResults.filter(
-        (y): y is YieldOpportunity => y !== null,
-      );
-      allYields.push(...validYields);
-
-      // Small delay between batches to avoid rate limiting
-      if (i + batchSize < verifiedVaults.length) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        return vaultData;
+      } catch (error) {
+        console.error(
+          `Error fetching vault ${vaultAddress}:`,
+          error,
+        );
+        return null;
       }
+    });
+
+    const batchResults = await Promise.all(batchPromises);
+    allVaults.push(...batchResults.filter((v): v is EulerVault => v !== null));
+
+    // Small delay between batches to avoid rate limiting
+    if (i + batchSize < verifiedVaults.length) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
     }
+  }
 
-    console.log(`${allYields.length} Euler yields after transformation`);
+  // Price underlying assets in one batch, then convert TVL to USD
+  const fetchedAt = new Date().toISOString();
+  const prices = await getUsdPrices(allVaults.map(getAssetToken));
+  const allYields = allVaults
+    .map((vault) => transformEulerVault(vault, prices, fetchedAt))
+    .filter((y): y is YieldOpportunity => y !== null);
 
-    // Apply correlation filter
-    const correlatedYields = filterCorrelatedEulerYields(allYields);
-    console.log(
-      `${correlatedYields.length} Euler yields after correlation filter`,
-    );
+  console.log(`${allYields.length} Euler yields after transformation`);
 
-    return correlatedYields;
-  } catch (error) {
-    console.error("Failed to fetch Euler yields:", error);
-    return [];
-  }
+  // Apply correlation filter
+  const correlatedYields = filterCorrelatedEulerYields(allYields);
+  console.log(
+    `${correlatedYields.length} Euler yields after correlation filter`,
+  );
+
+  return correlatedYields;
 }
+
+// Euler (TAC RPC) yield source adapter
+// Vaults are read in batches with delays, so it gets a longer timeout
+export const eulerSource: YieldSource = {
+  id: "euler",
+  name: "Euler",
+  fetch: fetchEulerYields,
+  enabled: true,
+  timeoutMs: 90000,
+};
@@ -0,0 +1,227 @@
+/**
+ * Upstream Fixtures (record / replay)
+ * Records real API and RPC responses to JSON files and serves them back
+ * offline, so the whole fetchTonYields -> formatChannelMessage pipeline can
+ * run in tests and locally without the network.
+ *
+ * One file per request: <dir>/<host>/<path>-<hash>.json, where the hash covers
+ * method, URL and body (headers are ignored). JSON-RPC requests are stored per
+ * call (<dir>/<host>/rpc-<method>-<hash>.json, keyed by method and params but
+ * not the call ID), because ethers batches calls differently from run to run.
+ *
+ * Recorded fixtures are plain JSON and can be trimmed by hand to keep them small.
+ */
+
+import { liveTransport, setTransport, type Transport } from "./transport.ts";
+
+export type FixtureMode = "record" | "replay";
+
+/**
+ * A recorded HTTP exchange
+ */
+export interface HttpFixture {
+  request: { method: string; url: string; body: string | null };
+  response: {
+    status: number;
+    statusText: string;
+    contentType: string | null;
+    /** Parsed JSON body, or the raw text for non-JSON responses */
+    body: unknown;
+  };
+}
+
+/**
+ * A recorded JSON-RPC call
+ */
+export interface RpcFixture {
+  request: { url: string; method: string; params: unknown };
+  response: { result?: unknown; error?: unknown };
+}
+
+interface JsonRpcCall {
+  jsonrpc: string;
+  id: number | string | null;
+  method: string;
+  params?: unknown;
+}
+
+/**
+ * Short stable hash for fixture file names
+ */
+async function hashKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].slice(0, 6).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Make a file name fragment out of arbitrary text
+ * e.g., "/v2/jettons/EQAP..." -> "v2_jettons_EQAP..."
+ */
+function slugify(text: string): string {
+  return text.replace(/[^a-zA-Z0-9.-]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 60) || "root";
+}
+
+/**
+ * Path of the fixture for an HTTP request
+ */
+async function getHttpFixturePath(dir: string, method: string, url: URL, body: string | null): Promise<string> {
+  const hash = await hashKey(`${method} ${url.href}\n${body ?? ""}`);
+  return `${dir}/${url.host}/${slugify(url.pathname + url.search)}-${hash}.json`;
+}
+
+/**
+ * Path of the fixture for a JSON-RPC call
+ */
+async function getRpcFixturePath(dir: string, url: URL, call: JsonRpcCall): Promise<string> {
+  const hash = await hashKey(`${url.href}\n${call.method}\n${JSON.stringify(call.params ?? [])}`);
+  return `${dir}/${url.host}/rpc-${slugify(call.method)}-${hash}.json`;
+}
+
+/**
+ * Parse a request body as JSON-RPC call(s) (null for anything else)
+ */
+function parseJsonRpc(body: string | null): JsonRpcCall[] | null {
+  if (!body) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(body);
+    const calls = Array.isArray(parsed) ? parsed : [parsed];
+    return calls.length > 0 && calls.every(c => c?.jsonrpc === "2.0" && typeof c.method === "string") ? calls : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a request's body as text (null when empty)
+ */
+async function readBody(request: Request): Promise<string | null> {
+  const text = await request.text();
+  return text === "" ? null : text;
+}
+
+/**
+ * Write a fixture file, creating its directory
+ */
+async function writeFixture(path: string, fixture: HttpFixture | RpcFixture): Promise<void> {
+  await Deno.mkdir(path.slice(0, path.lastIndexOf("/")), { recursive: true });
+  await Deno.writeTextFile(path, JSON.stringify(fixture, null, 2) + "\n");
+}
+
+/**
+ * Read a fixture file, failing with a hint on how to record it
+ */
+async function readFixture<T>(path: string, description: string): Promise<T> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path)) as T;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new Error(`No fixture for ${description} (expected ${path}; record it with HTTP_FIXTURES=record)`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Transport that forwards requests to another transport and saves every response
+ */
+export function createRecordingTransport(dir: string, inner: Transport = liveTransport): Transport {
+  return async (request) => {
+    const url = new URL(request.url);
+    const body = await readBody(request.clone());
+    const response = await inner(request);
+    const text = await response.text();
+    const calls = parseJsonRpc(body);
+
+    if (calls && response.ok) {
+      // Store each call's result separately, matched back by call ID
+      const parsed = JSON.parse(text);
+      const results: Array<{ id: unknown; result?: unknown; error?: unknown }> = Array.isArray(parsed) ? parsed : [parsed];
+      for (const call of calls) {
+        const result = results.find(r => r.id === call.id);
+        if (!result) continue;
+        const path = await getRpcFixturePath(dir, url, call);
+        await writeFixture(path, {
+          request: { url: url.href, method: call.method, params: call.params ?? [] },
+          response: "error" in result ? { error: result.error } : { result: result.result },
+        });
+      }
+    } else {
+      let parsedBody: unknown = text;
+      try {
+        parsedBody = JSON.parse(text);
+      } catch {
+        // Not JSON - keep the raw text
+      }
+      const path = await getHttpFixturePath(dir, request.method, url, body);
+      await writeFixture(path, {
+        request: { method: request.method, url: url.href, body },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          contentType: response.headers.get("content-type"),
+          body: parsedBody,
+        },
+      });
+    }
+
+    // The body is already decoded, so only the content type carries over
+    const contentType = response.headers.get("content-type");
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: contentType ? { "Content-Type": contentType } : undefined,
+    });
+  };
+}
+
+/**
+ * Transport that answers every request from recorded fixtures (never touches the network)
+ * Requests without a fixture fail, like a network error would.
+ */
+export function createReplayTransport(dir: string): Transport {
+  return async (request) => {
+    const url = new URL(request.url);
+    const body = await readBody(request);
+    const calls = parseJsonRpc(body);
+
+    if (calls) {
+      const results = [];
+      for (const call of calls) {
+        const path = await getRpcFixturePath(dir, url, call);
+        const fixture = await readFixture<RpcFixture>(path, `RPC ${call.method} at ${url.href}`);
+        results.push({ jsonrpc: "2.0", id: call.id, ...fixture.response });
+      }
+      const payload = body!.trimStart().startsWith("[") ? results : results[0];
+      return Response.json(payload);
+    }
+
+    const path = await getHttpFixturePath(dir, request.method, url, body);
+    const fixture = await readFixture<HttpFixture>(path, `${request.method} ${url.href}`);
+    const { status, statusText, contentType, body: fixtureBody } = fixture.response;
+    const text = typeof fixtureBody === "string" && !contentType?.includes("json")
+      ? fixtureBody
+      : JSON.stringify(fixtureBody);
+    return new Response(text, {
+      status,
+      statusText,
+      headers: contentType ? { "Content-Type": contentType } : undefined,
+    });
+  };
+}
+
+/**
+ * Check whether a value names a fixture mode
+ */
+export function isFixtureMode(value: string): value is FixtureMode {
+  return value === "record" || value === "replay";
+}
+
+/**
+ * Route all upstream requests through fixtures in the given directory
+ */
+export function useFixtures(mode: FixtureMode, dir: string): void {
+  setTransport(mode === "record" ? createRecordingTransport(dir) : createReplayTransport(dir));
+  console.log(`✓ Upstream requests ${mode === "record" ? "recorded to" : "replayed from"} ${dir}`);
+}
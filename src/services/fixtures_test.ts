@@ -0,0 +1,72 @@
+import { assertEquals, assertRejects } from "std/assert/mod.ts";
+import { createRecordingTransport, createReplayTransport } from "./fixtures.ts";
+import type { Transport } from "./transport.ts";
+
+/**
+ * Upstream stand-in: JSON-RPC results echo method and params, GET responses echo the path
+ */
+const upstream: Transport = async (request) => {
+  if (request.method === "POST") {
+    const body = JSON.parse(await request.text());
+    const calls = Array.isArray(body) ? body : [body];
+    const results = calls.map(c => ({ jsonrpc: "2.0", id: c.id, result: `${c.method}:${JSON.stringify(c.params)}` }));
+    return Response.json(Array.isArray(body) ? results : results[0]);
+  }
+  return Response.json({ path: new URL(request.url).pathname }, { status: 200 });
+};
+
+const rpcBody = (calls: Array<[number, string, unknown[]]>) =>
+  JSON.stringify(calls.map(([id, method, params]) => ({ jsonrpc: "2.0", id, method, params })));
+
+Deno.test("replay serves recorded HTTP responses", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const record = createRecordingTransport(dir, upstream);
+    const recorded = await record(new Request("https://api.example.com/v1/pools?chain=ton"));
+    assertEquals(await recorded.json(), { path: "/v1/pools" });
+
+    const replay = createReplayTransport(dir);
+    const replayed = await replay(new Request("https://api.example.com/v1/pools?chain=ton"));
+    assertEquals(replayed.status, 200);
+    assertEquals(await replayed.json(), { path: "/v1/pools" });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("replay answers JSON-RPC calls regardless of batching and call IDs", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const record = createRecordingTransport(dir, upstream);
+    await record(new Request("https://rpc.example.com/", {
+      method: "POST",
+      body: rpcBody([[1, "eth_chainId", []], [2, "eth_call", [{ to: "0xabc" }, "latest"]]]),
+    }));
+
+    // Same calls, split differently and with new IDs
+    const replay = createReplayTransport(dir);
+    const response = await replay(new Request("https://rpc.example.com/", {
+      method: "POST",
+      body: rpcBody([[7, "eth_call", [{ to: "0xabc" }, "latest"]]]),
+    }));
+    assertEquals(await response.json(), [
+      { jsonrpc: "2.0", id: 7, result: 'eth_call:[{"to":"0xabc"},"latest"]' },
+    ]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("replay fails for requests that were never recorded", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const replay = createReplayTransport(dir);
+    await assertRejects(
+      () => replay(new Request("https://api.example.com/missing")),
+      Error,
+      "No fixture for GET https://api.example.com/missing",
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,299 @@
+/**
+ * History Export / Import
+ * Exports pool snapshots, TON TVL history and run reports over a date range
+ * as JSON (one file) or CSV (one file per dataset), and imports the same
+ * files to restore or backfill KV.
+ *
+ * Files:
+ *   history.json        - everything, as a HistoryExport object
+ *   pool_snapshots.csv  - pool_id,date,apy,tvl_usd,timestamp,source,asset,pool_meta
+ *   tvl_history.csv     - date,tvl_usd,timestamp
+ *   run_reports.csv     - started_at,finished_at,sources,dedup,unknown_assets,category_counts,sanity_issues
+ *                         (JSON columns; the last two are empty for reports without them)
+ */
+
+import type { RunReport } from "../types/yields.ts";
+import { type CsvValue, parseCsv, toCsv } from "./csv.ts";
+import { loadAllPoolSnapshots, MAX_HISTORY_DAYS, type PoolSnapshot, savePoolSnapshots } from "./snapshot_store.ts";
+import { getTvlHistory, importTvlSnapshots, type TvlSnapshot } from "./tvl_history.ts";
+import { listRunReports, saveRunReport } from "./run_reports.ts";
+import { getDateDaysAgo } from "./clock.ts";
+
+/**
+ * Inclusive date range (YYYY-MM-DD)
+ */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * A pool snapshot with the pool it belongs to
+ */
+export interface PoolSnapshotRecord extends PoolSnapshot {
+  poolId: string;
+}
+
+/**
+ * Everything an export contains (the history.json format)
+ */
+export interface HistoryExport {
+  version: 1;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  range: DateRange;
+  poolSnapshots: PoolSnapshotRecord[];
+  tvlSnapshots: TvlSnapshot[];
+  runReports: RunReport[];
+}
+
+/**
+ * Records written by an import
+ */
+export interface ImportSummary {
+  poolSnapshots: number;
+  tvlSnapshots: number;
+  runReports: number;
+  /** Pool snapshots older than the history window (reads would ignore them) */
+  skipped: number;
+}
+
+export type ExportFormat = "csv" | "json";
+
+export const HISTORY_JSON_FILE = "history.json";
+const POOL_SNAPSHOTS_FILE = "pool_snapshots.csv";
+const TVL_HISTORY_FILE = "tvl_history.csv";
+const RUN_REPORTS_FILE = "run_reports.csv";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Build a date range; defaults to the whole history window (last 30 days up to today)
+ * Throws on dates that aren't YYYY-MM-DD or a range that ends before it starts.
+ */
+export function parseDateRange(from?: string, to?: string): DateRange {
+  const range = { from: from || getDateDaysAgo(MAX_HISTORY_DAYS - 1), to: to || getDateDaysAgo(0) };
+  for (const date of [range.from, range.to]) {
+    if (!DATE_PATTERN.test(date) || isNaN(Date.parse(date))) {
+      throw new Error(`Invalid date "${date}" (expected YYYY-MM-DD)`);
+    }
+  }
+  if (range.from > range.to) {
+    throw new Error(`Invalid range: ${range.from} is after ${range.to}`);
+  }
+  return range;
+}
+
+/**
+ * Read all history within a date range from KV
+ */
+export async function exportHistory(range: DateRange): Promise<HistoryExport> {
+  const inRange = (date: string) => date >= range.from && date <= range.to;
+
+  const poolSnapshots: PoolSnapshotRecord[] = [];
+  for (const [poolId, snapshots] of await loadAllPoolSnapshots()) {
+    // Stored newest first; export oldest first
+    for (const snapshot of [...snapshots].reverse()) {
+      if (inRange(snapshot.date)) {
+        poolSnapshots.push({ poolId, ...snapshot });
+      }
+    }
+  }
+
+  const tvlSnapshots = (await getTvlHistory()).filter(s => inRange(s.date));
+  const runReports = (await listRunReports()).filter(r => inRange(r.startedAt.slice(0, 10)));
+
+  return { version: 1, exportedAt: new Date().toISOString(), range, poolSnapshots, tvlSnapshots, runReports };
+}
+
+/**
+ * Write exported history back to KV
+ * Existing records for the same pool/date, TVL date or run are replaced.
+ */
+export async function importHistory(data: HistoryExport): Promise<ImportSummary> {
+  const cutoff = getDateDaysAgo(MAX_HISTORY_DAYS - 1);
+  const current = data.poolSnapshots.filter(s => s.date >= cutoff);
+
+  // savePoolSnapshots takes one snapshot per pool, so write one date at a time
+  const byDate = new Map<string, Map<string, PoolSnapshot>>();
+  for (const { poolId, ...snapshot } of current) {
+    const snapshots = byDate.get(snapshot.date) ?? new Map<string, PoolSnapshot>();
+    snapshots.set(poolId, snapshot);
+    byDate.set(snapshot.date, snapshots);
+  }
+  for (const snapshots of byDate.values()) {
+    await savePoolSnapshots(snapshots);
+  }
+
+  await importTvlSnapshots(data.tvlSnapshots);
+  for (const report of data.runReports) {
+    await saveRunReport(report);
+  }
+
+  return {
+    poolSnapshots: current.length,
+    tvlSnapshots: data.tvlSnapshots.length,
+    runReports: data.runReports.length,
+    skipped: data.poolSnapshots.length - current.length,
+  };
+}
+
+/**
+ * Serialize an export as files (file name -> content)
+ */
+export function formatHistoryFiles(data: HistoryExport, format: ExportFormat): Record<string, string> {
+  if (format === "json") {
+    return { [HISTORY_JSON_FILE]: JSON.stringify(data, null, 2) };
+  }
+
+  const poolRows: CsvValue[][] = data.poolSnapshots.map(s => [
+    s.poolId,
+    s.date,
+    s.apy,
+    s.tvl,
+    s.timestamp,
+    s.label?.source,
+    s.label?.asset,
+    s.label?.poolMeta,
+  ]);
+  const tvlRows: CsvValue[][] = data.tvlSnapshots.map(s => [s.date, s.tvl, s.timestamp]);
+  const reportRows: CsvValue[][] = data.runReports.map(r => [
+    r.startedAt,
+    r.finishedAt,
+    JSON.stringify(r.sources),
+    JSON.stringify(r.dedup),
+    JSON.stringify(r.unknownAssets),
+    r.categoryCounts ? JSON.stringify(r.categoryCounts) : undefined,
+    // Held runs must stay held after a round-trip, or they'd become the sanity baseline
+    r.sanityIssues ? JSON.stringify(r.sanityIssues) : undefined,
+  ]);
+
+  return {
+    [POOL_SNAPSHOTS_FILE]: toCsv(
+      ["pool_id", "date", "apy", "tvl_usd", "timestamp", "source", "asset", "pool_meta"],
+      poolRows,
+    ),
+    [TVL_HISTORY_FILE]: toCsv(["date", "tvl_usd", "timestamp"], tvlRows),
+    [RUN_REPORTS_FILE]: toCsv(
+      ["started_at", "finished_at", "sources", "dedup", "unknown_assets", "category_counts", "sanity_issues"],
+      reportRows,
+    ),
+  };
+}
+
+/**
+ * Parse a required number column
+ */
+function parseNumber(value: string, column: string, file: string): number {
+  const number = Number(value);
+  if (value === "" || !Number.isFinite(number)) {
+    throw new Error(`${file}: invalid ${column} "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Parse a required date column
+ */
+function parseDate(value: string, file: string): string {
+  if (!DATE_PATTERN.test(value)) {
+    throw new Error(`${file}: invalid date "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse exported files (file name -> content) back into an export
+ * Accepts either history.json or any of the CSV files; missing CSV files count as empty.
+ */
+export function parseHistoryFiles(files: Record<string, string>): HistoryExport {
+  const json = files[HISTORY_JSON_FILE];
+  if (json !== undefined) {
+    const data = JSON.parse(json) as HistoryExport;
+    if (data.version !== 1 || !Array.isArray(data.poolSnapshots) || !Array.isArray(data.tvlSnapshots) ||
+      !Array.isArray(data.runReports)) {
+      throw new Error(`${HISTORY_JSON_FILE}: not a version 1 history export`);
+    }
+    return data;
+  }
+
+  const poolSnapshots: PoolSnapshotRecord[] = parseCsv(files[POOL_SNAPSHOTS_FILE] ?? "").map(row => ({
+    poolId: row.pool_id,
+    date: parseDate(row.date, POOL_SNAPSHOTS_FILE),
+    apy: parseNumber(row.apy, "apy", POOL_SNAPSHOTS_FILE),
+    tvl: row.tvl_usd === "" ? undefined : parseNumber(row.tvl_usd, "tvl_usd", POOL_SNAPSHOTS_FILE),
+    timestamp: parseNumber(row.timestamp, "timestamp", POOL_SNAPSHOTS_FILE),
+    label: row.source || row.asset
+      ? { source: row.source, asset: row.asset, poolMeta: row.pool_meta || null }
+      : undefined,
+  }));
+
+  const tvlSnapshots: TvlSnapshot[] = parseCsv(files[TVL_HISTORY_FILE] ?? "").map(row => ({
+    date: parseDate(row.date, TVL_HISTORY_FILE),
+    tvl: parseNumber(row.tvl_usd, "tvl_usd", TVL_HISTORY_FILE),
+    timestamp: parseNumber(row.timestamp, "timestamp", TVL_HISTORY_FILE),
+  }));
+
+  const runReports: RunReport[] = parseCsv(files[RUN_REPORTS_FILE] ?? "").map(row => ({
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    sources: JSON.parse(row.sources || "[]"),
+    dedup: JSON.parse(row.dedup || "[]"),
+    unknownAssets: JSON.parse(row.unknown_assets || "[]"),
+    ...(row.category_counts ? { categoryCounts: JSON.parse(row.category_counts) } : {}),
+    ...(row.sanity_issues ? { sanityIssues: JSON.parse(row.sanity_issues) } : {}),
+  }));
+
+  const dates = [...poolSnapshots, ...tvlSnapshots].map(s => s.date).sort();
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    range: { from: dates[0] ?? "", to: dates[dates.length - 1] ?? "" },
+    poolSnapshots,
+    tvlSnapshots,
+    runReports,
+  };
+}
+
+/**
+ * Export to disk: a path ending in ".json" gets one JSON file, any other path
+ * is used as a directory for the CSV files
+ * Returns the paths written.
+ */
+export async function writeHistoryExport(path: string, data: HistoryExport): Promise<string[]> {
+  if (path.endsWith(".json")) {
+    await Deno.writeTextFile(path, formatHistoryFiles(data, "json")[HISTORY_JSON_FILE]);
+    return [path];
+  }
+
+  await Deno.mkdir(path, { recursive: true });
+  const written: string[] = [];
+  for (const [name, content] of Object.entries(formatHistoryFiles(data, "csv"))) {
+    const filePath = `${path}/${name}`;
+    await Deno.writeTextFile(filePath, content);
+    written.push(filePath);
+  }
+  return written;
+}
+
+/**
+ * Read an export from disk: a JSON file, or a directory of CSV files
+ */
+export async function readHistoryExport(path: string): Promise<HistoryExport> {
+  if ((await Deno.stat(path)).isFile) {
+    return parseHistoryFiles({ [HISTORY_JSON_FILE]: await Deno.readTextFile(path) });
+  }
+
+  const files: Record<string, string> = {};
+  for (const name of [POOL_SNAPSHOTS_FILE, TVL_HISTORY_FILE, RUN_REPORTS_FILE]) {
+    try {
+      files[name] = await Deno.readTextFile(`${path}/${name}`);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+  if (Object.keys(files).length === 0) {
+    throw new Error(`No export files found in ${path}`);
+  }
+  return parseHistoryFiles(files);
+}
@@ -0,0 +1,84 @@
+import { assertEquals, assertThrows } from "std/assert/mod.ts";
+import type { RunReport } from "../types/yields.ts";
+import { formatHistoryFiles, type HistoryExport, parseDateRange, parseHistoryFiles } from "./history_export.ts";
+import { setKv } from "./kv.ts";
+import { getLatestAcceptedRunReport, saveRunReport } from "./run_reports.ts";
+
+const data: HistoryExport = {
+  version: 1,
+  exportedAt: "2026-01-16T00:00:00.000Z",
+  range: { from: "2026-01-14", to: "2026-01-15" },
+  poolSnapshots: [
+    {
+      poolId: "defillama:ton:abc",
+      date: "2026-01-14",
+      apy: 5.25,
+      tvl: 1_200_000,
+      timestamp: 1768377600000,
+      label: { source: "EVAA", asset: "USDT", poolMeta: "Main, v2" },
+    },
+    { poolId: "swapcoffee:ton:EQB", date: "2026-01-15", apy: 3, timestamp: 1768464000000 },
+  ],
+  tvlSnapshots: [{ date: "2026-01-15", tvl: 98_000_000, timestamp: 1768464000000 }],
+  runReports: [{
+    startedAt: "2026-01-15T09:00:00.000Z",
+    finishedAt: "2026-01-15T09:00:04.000Z",
+    sources: [{ id: "euler", name: "Euler", status: "error", latencyMs: 120, poolCount: 0, error: 'HTTP 502, "bad gateway"' }],
+    dedup: [],
+    unknownAssets: [{ id: "merkl:tac:1", protocol: "Carbon", asset: "FOO" }],
+  }],
+};
+
+Deno.test("CSV export round-trips through the importer", () => {
+  const files = formatHistoryFiles(data, "csv");
+  assertEquals(Object.keys(files), ["pool_snapshots.csv", "tvl_history.csv", "run_reports.csv"]);
+
+  const parsed = parseHistoryFiles(files);
+  assertEquals(parsed.poolSnapshots, [data.poolSnapshots[0], { ...data.poolSnapshots[1], tvl: undefined, label: undefined }]);
+  assertEquals(parsed.tvlSnapshots, data.tvlSnapshots);
+  assertEquals(parsed.runReports, data.runReports);
+  assertEquals(parsed.range, { from: "2026-01-14", to: "2026-01-15" });
+});
+
+Deno.test("CSV export keeps the sanity fields of a held run", async () => {
+  const held: RunReport = {
+    ...data.runReports[0],
+    startedAt: "2026-01-16T09:00:00.000Z",
+    categoryCounts: { TON: 3, STABLE: 0 },
+    sanityIssues: ["STABLE is empty (had 6 pools)"],
+  };
+  const accepted: RunReport = { ...data.runReports[0], categoryCounts: { TON: 3, STABLE: 6 } };
+  const parsed = parseHistoryFiles(formatHistoryFiles({ ...data, runReports: [accepted, held] }, "csv"));
+  assertEquals(parsed.runReports, [accepted, held]);
+
+  // Imported, the held run still isn't the baseline
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    for (const report of parsed.runReports) {
+      await saveRunReport(report);
+    }
+    assertEquals((await getLatestAcceptedRunReport())?.categoryCounts, { TON: 3, STABLE: 6 });
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("JSON export round-trips through the importer", () => {
+  assertEquals(parseHistoryFiles(formatHistoryFiles(data, "json")), data);
+  assertThrows(() => parseHistoryFiles({ "history.json": '{"version":2}' }), Error, "not a version 1");
+});
+
+Deno.test("parseHistoryFiles reports invalid values with the file name", () => {
+  assertThrows(
+    () => parseHistoryFiles({ "tvl_history.csv": "date,tvl_usd,timestamp\n2026-01-15,lots,1\n" }),
+    Error,
+    "tvl_history.csv: invalid tvl_usd",
+  );
+});
+
+Deno.test("parseDateRange validates dates and order", () => {
+  assertEquals(parseDateRange("2026-01-01", "2026-01-31"), { from: "2026-01-01", to: "2026-01-31" });
+  assertThrows(() => parseDateRange("01/02/2026"), Error, "expected YYYY-MM-DD");
+  assertThrows(() => parseDateRange("2026-02-01", "2026-01-01"), Error, "is after");
+});
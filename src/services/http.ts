@@ -0,0 +1,165 @@
+/**
+ * HTTP Client
+ * Shared JSON fetching for all data sources
+ *
+ * GET responses are cached by URL:
+ * - concurrent requests for the same URL share one in-flight fetch
+ * - parsed responses are kept in memory for config.httpCacheTtlMs
+ * - optionally persisted in Deno KV (config.httpCacheKv) so other isolates
+ *   and restarts can reuse them; payloads over KV's value size limit stay in memory only
+ */
+
+import { config } from "../config.ts";
+import { getKv } from "./kv.ts";
+import { sendRequest } from "./transport.ts";
+
+const KV_PREFIX = ["http_cache"];
+
+/** Deno KV rejects values over 64 KiB; leave headroom for serialization overhead */
+const MAX_KV_VALUE_BYTES = 60_000;
+
+export interface FetchJsonOptions {
+  /** Name used in error messages (e.g., "DefiLlama" -> "DefiLlama API error: 500") */
+  name: string;
+  timeoutMs: number;
+  /** Extra request options; requests with a method other than GET or a body are never cached */
+  init?: RequestInit;
+  /** Cache lifetime in ms (defaults to config.httpCacheTtlMs, 0 disables caching) */
+  ttlMs?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Error thrown for non-2xx responses
+ */
+export class HttpError extends Error {
+  constructor(
+    name: string,
+    readonly status: number,
+    statusText: string,
+    readonly url: string,
+  ) {
+    super(`${name} API error: ${status} ${statusText}`);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Check whether a request can be served from cache
+ */
+function isCacheable(init: RequestInit | undefined): boolean {
+  const method = init?.method?.toUpperCase() ?? "GET";
+  return method === "GET" && !init?.body;
+}
+
+/**
+ * Fetch and parse a JSON response, throwing HttpError on non-2xx status
+ */
+async function request<T>(url: string, options: FetchJsonOptions): Promise<T> {
+  const response = await sendRequest(new Request(url, {
+    ...options.init,
+    signal: AbortSignal.timeout(options.timeoutMs),
+  }));
+
+  if (!response.ok) {
+    throw new HttpError(options.name, response.status, response.statusText, url);
+  }
+
+  return await response.json() as T;
+}
+
+/**
+ * Read a cached response from KV (null on miss or when KV caching is off)
+ */
+async function readKvCache<T>(url: string): Promise<T | null> {
+  if (!config.httpCacheKv) {
+    return null;
+  }
+  try {
+    const kv = await getKv();
+    const entry = await kv.get<CacheEntry>([...KV_PREFIX, url]);
+    if (entry.value && entry.value.expiresAt > Date.now()) {
+      memoryCache.set(url, entry.value);
+      return entry.value.value as T;
+    }
+  } catch (error) {
+    console.error(`Failed to read HTTP cache for ${url}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Persist a response in KV when KV caching is on and the payload is small enough
+ */
+async function writeKvCache(url: string, entry: CacheEntry, ttlMs: number): Promise<void> {
+  if (!config.httpCacheKv) {
+    return;
+  }
+  try {
+    const size = new TextEncoder().encode(JSON.stringify(entry.value)).length;
+    if (size > MAX_KV_VALUE_BYTES) {
+      return;
+    }
+    const kv = await getKv();
+    await kv.set([...KV_PREFIX, url], entry, { expireIn: ttlMs });
+  } catch (error) {
+    console.error(`Failed to write HTTP cache for ${url}:`, error);
+  }
+}
+
+/**
+ * Fetch JSON from a URL
+ * GET requests are deduplicated while in flight and cached for the TTL,
+ * so several sources asking for the same URL during a run trigger one download.
+ * Callers must treat the returned value as read-only, since it may be shared.
+ */
+export function fetchJson<T>(url: string, options: FetchJsonOptions): Promise<T> {
+  const ttlMs = options.ttlMs ?? config.httpCacheTtlMs;
+  if (ttlMs <= 0 || !isCacheable(options.init)) {
+    return request<T>(url, options);
+  }
+
+  const cached = memoryCache.get(url);
+  if (cached && cached.expiresAt > Date.now()) {
+    return Promise.resolve(cached.value as T);
+  }
+
+  const pending = inFlight.get(url);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const promise = (async () => {
+    try {
+      const fromKv = await readKvCache<T>(url);
+      if (fromKv !== null) {
+        return fromKv;
+      }
+
+      const value = await request<T>(url, options);
+      const entry: CacheEntry = { value, expiresAt: Date.now() + ttlMs };
+      memoryCache.set(url, entry);
+      await writeKvCache(url, entry, ttlMs);
+      return value;
+    } finally {
+      inFlight.delete(url);
+    }
+  })();
+
+  inFlight.set(url, promise);
+  return promise;
+}
+
+/**
+ * Drop all in-memory cached responses (KV entries expire on their own)
+ */
+export function clearHttpCache(): void {
+  memoryCache.clear();
+}
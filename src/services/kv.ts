@@ -0,0 +1,53 @@
+/**
+ * Shared Deno KV handle
+ * Opened once per process and reused by every service
+ */
+
+let kvPromise: Promise<Deno.Kv> | null = null;
+
+/**
+ * Open Deno KV database
+ * In production (Deno Deploy): uses cloud KV (no path needed)
+ * In development: uses local file in ./data/kv.db
+ */
+async function openKv(): Promise<Deno.Kv> {
+  // Check if we're in Deno Deploy production environment
+  const isProduction = Deno.env.get("DENO_DEPLOYMENT_ID") !== undefined;
+
+  if (isProduction) {
+    // Production: Use cloud KV (default)
+    return await Deno.openKv();
+  } else {
+    // Development: Use local file-based KV
+    try {
+      await Deno.mkdir("./data", { recursive: true });
+    } catch {
+      // Directory already exists
+    }
+    return await Deno.openKv("./data/kv.db");
+  }
+}
+
+/**
+ * Get the shared KV handle (opened on first use)
+ * Callers must not close it
+ */
+export function getKv(): Promise<Deno.Kv> {
+  if (!kvPromise) {
+    kvPromise = openKv().catch((error) => {
+      // Allow a retry on the next call
+      kvPromise = null;
+      throw error;
+    });
+  }
+  return kvPromise;
+}
+
+
+/**
+ * Use the given KV handle instead of opening the database
+ * (e.g. `await Deno.openKv(":memory:")` for offline runs and tests)
+ */
+export function setKv(kv: Deno.Kv): void {
+  kvPromise = Promise.resolve(kv);
+}
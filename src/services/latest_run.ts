@@ -0,0 +1,84 @@
+/**
+ * Latest Aggregation Run
+ * Keeps the pools from the most recent run in KV so the HTTP API can serve
+ * them without fetching every source on each request.
+ *
+ * Pools are written under the run's start time (["latest_run", startedAt, poolId])
+ * in atomic batches, then a pointer to that run is set. Readers follow the
+ * pointer, so they never see a half-written run; runs (and the pointer) expire
+ * after a few days, so the API never serves week-old data as current.
+ */
+
+import type { AggregationResult, RunReport, YieldOpportunity } from "../types/yields.ts";
+import { getKv } from "./kv.ts";
+import { flattenYields } from "./categories.ts";
+
+/**
+ * Pools and report of a stored run
+ */
+export interface LatestRun {
+  report: RunReport;
+  /** All posted pools, in category display order */
+  pools: YieldOpportunity[];
+}
+
+const KV_PREFIX = ["latest_run"];
+const POINTER_KEY = ["latest_run_pointer"];
+const RUN_TTL_MS = 3 * 24 * 60 * 60 * 1000; // Old runs linger a few days, then expire
+
+/** Mutations per atomic commit (well below Deno KV's per-operation limit) */
+const ATOMIC_BATCH_SIZE = 100;
+
+/**
+ * Pointer to the latest complete run
+ */
+interface RunPointer {
+  startedAt: string;
+  report: RunReport;
+}
+
+/**
+ * Store a run's pools and make it the latest run
+ */
+export async function saveLatestRun(result: AggregationResult): Promise<void> {
+  try {
+    const kv = await getKv();
+    const { startedAt } = result.report;
+    const pools = flattenYields(result.yields);
+
+    for (let i = 0; i < pools.length; i += ATOMIC_BATCH_SIZE) {
+      const op = kv.atomic();
+      pools.slice(i, i + ATOMIC_BATCH_SIZE).forEach((pool, offset) => {
+        // Index first, so listing returns pools in display order
+        op.set([...KV_PREFIX, startedAt, i + offset, pool.id], pool, { expireIn: RUN_TTL_MS });
+      });
+      const commit = await op.commit();
+      if (!commit.ok) {
+        throw new Error(`Pool batch ${i / ATOMIC_BATCH_SIZE + 1} failed to commit`);
+      }
+    }
+
+    const pointer: RunPointer = { startedAt, report: result.report };
+    await kv.set(POINTER_KEY, pointer, { expireIn: RUN_TTL_MS });
+    console.log(`✓ Latest run saved to KV: ${startedAt} (${pools.length} pools)`);
+  } catch (error) {
+    console.error("Failed to save latest run to KV:", error);
+  }
+}
+
+/**
+ * Load the latest complete run (or null if none stored yet)
+ */
+export async function loadLatestRun(): Promise<LatestRun | null> {
+  const kv = await getKv();
+  const pointer = (await kv.get<RunPointer>(POINTER_KEY)).value;
+  if (!pointer) {
+    return null;
+  }
+
+  const pools: YieldOpportunity[] = [];
+  for await (const entry of kv.list<YieldOpportunity>({ prefix: [...KV_PREFIX, pointer.startedAt] })) {
+    pools.push(entry.value);
+  }
+  return { report: pointer.report, pools };
+}
@@ -1,6 +1,7 @@
-import type { YieldOpportunity } from "../types/yields.ts";
+import type { YieldOpportunity, YieldSource } from "../types/yields.ts";
 import { 
   classifyAsset, 
+  createYieldId,
   formatProtocolName, 
   getProtocolUrl,
   isSingleAsset,
@@ -8,11 +9,14 @@ import {
   pairBelongsToCategory,
   isTonUsdtPool,
 } from "./protocols.ts";
+import { fetchJson } from "./http.ts";
 
 /**
  * Merkl API response structure
  */
 interface MerklOpportunity {
+  /** Merkl opportunity ID (unique per campaign target) */
+  id?: string;
   name: string;
   identifier: string;
   apr: number;
@@ -47,12 +51,10 @@ const TELEGRAM_WALLET_VAULT_URLS: Record<string, string> = {
  */
 async function fetchFeatherZoneBaseApys(): Promise<Map<string, number>> {
   try {
-    const response = await fetch(FEATHER_ZONE_URL, { signal: AbortSignal.timeout(10000) });
-    if (!response.ok) {
-      console.warn(`Feather Zone API error: ${response.status}`);
-      return new Map();
-    }
-    const data: Array<{ vaultId: string; apr: number }> = await response.json();
+    const data = await fetchJson<Array<{ vaultId: string; apr: number }>>(FEATHER_ZONE_URL, {
+      name: "Feather Zone",
+      timeoutMs: 10000,
+    });
     const map = new Map<string, number>();
     for (const { vaultId, apr } of data) {
       // Convert decimal APR → APY percentage (continuous compounding)
@@ -116,6 +118,7 @@ function extractAssetSymbol(name: string, mainParameter?: string): string {
  */
 function transformMerklToYield(
   opp: MerklOpportunity,
+  fetchedAt: string,
   baseApyMap: Map<string, number> = new Map(),
 ): YieldOpportunity {
   const asset = extractAssetSymbol(opp.name, opp.mainParameter);
@@ -130,7 +133,15 @@ function transformMerklToYield(
   // Check if this vault is also accessible via Telegram Wallet
   const telegramWalletUrl = TELEGRAM_WALLET_VAULT_URLS[opp.identifier.toLowerCase()];
 
+  const upstreamId = opp.id ?? opp.identifier;
+
   return {
+    id: createYieldId("Merkl", "TAC", upstreamId),
+    chain: "TAC",
+    upstreamId,
+    dataSource: "Merkl",
+    fetchedAt,
+    tvlEstimated: false,
     assetType,
     source: formatProtocolName(opp.protocol.name),
     sourceUrl: getProtocolUrl(opp.protocol.name),
@@ -141,6 +152,7 @@ function transformMerklToYield(
     apyTotal: totalApy,
     tvlUsd: opp.tvl,
     isTonUsdtPool: isTonUsdt,
+    address: opp.identifier,
     ...(telegramWalletUrl && {
       secondarySourceUrl: telegramWalletUrl,
       secondarySourceName: "Telegram Wallet",
@@ -179,41 +191,33 @@ function filterCorrelatedMerklYields(yields: YieldOpportunity[]): YieldOpportuni
 export async function fetchMerklYields(): Promise<YieldOpportunity[]> {
   console.log("Fetching yields from Merkl API (TAC chain)...");
   
-  try {
-    // Fetch Merkl opportunities and Feather Zone base APYs in parallel
-    const [response, baseApyMap] = await Promise.all([
-      fetch("https://api.merkl.xyz/v4/opportunities?chainId=239", { signal: AbortSignal.timeout(15000) }),
-      fetchFeatherZoneBaseApys(),
-    ]);
-    
-    if (!response.ok) {
-      throw new Error(`Merkl API error: ${response.status} ${response.statusText}`);
-    }
-    
-    const opportunities: MerklOpportunity[] = await response.json();
-    console.log(`Fetched ${opportunities.length} opportunities from Merkl`);
-    
-    // Filter and transform, injecting Feather Zone base APYs
-    const yields = opportunities
-      .filter(opp => 
-        opp.apr > 0 && // Has Merkl reward APR
-        opp.tvl > 5000 && // Minimum TVL threshold
-        opp.chainId === 239 // TAC chain
-      )
-      .map(opp => transformMerklToYield(opp, baseApyMap));
-    
-    console.log(`${yields.length} Merkl yields after basic filtering`);
-    
-    // Filter to correlated pairs only (no IL risk)
-    const correlatedYields = filterCorrelatedMerklYields(yields);
-    console.log(`${correlatedYields.length} Merkl yields after correlated filter`);
-    
-    return correlatedYields;
-  } catch (error) {
-    console.error("Failed to fetch Merkl yields:", error);
-    // Return empty array on error - don't break the whole bot
-    return [];
-  }
+  // Fetch Merkl opportunities and Feather Zone base APYs in parallel
+  const [opportunities, baseApyMap] = await Promise.all([
+    fetchJson<MerklOpportunity[]>("https://api.merkl.xyz/v4/opportunities?chainId=239", {
+      name: "Merkl",
+      timeoutMs: 15000,
+    }),
+    fetchFeatherZoneBaseApys(),
+  ]);
+  const fetchedAt = new Date().toISOString();
+  console.log(`Fetched ${opportunities.length} opportunities from Merkl`);
+  
+  // Filter and transform, injecting Feather Zone base APYs
+  const yields = opportunities
+    .filter(opp => 
+      opp.apr > 0 && // Has Merkl reward APR
+      opp.tvl > 5000 && // Minimum TVL threshold
+      opp.chainId === 239 // TAC chain
+    )
+    .map(opp => transformMerklToYield(opp, fetchedAt, baseApyMap));
+  
+  console.log(`${yields.length} Merkl yields after basic filtering`);
+  
+  // Filter to correlated pairs only (no IL risk)
+  const correlatedYields = filterCorrelatedMerklYields(yields);
+  console.log(`${correlatedYields.length} Merkl yields after correlated filter`);
+  
+  return correlatedYields;
 }
 
 /**
@@ -249,3 +253,15 @@ export async function getMerklSummary(): Promise<Record<string, { count: number;
     return {};
   }
 }
+
+/**
+ * Merkl (TAC dApps) yield source adapter
+ */
+export const merklSource: YieldSource = {
+  id: "merkl",
+  name: "Merkl",
+  fetch: fetchMerklYields,
+  attribution: { name: "Merkl", url: "https://merkl.xyz/" },
+  enabled: true,
+  timeoutMs: 30000,
+};
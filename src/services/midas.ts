@@ -1,10 +1,12 @@
-import type { YieldOpportunity } from "../types/yields.ts";
+import type { YieldOpportunity, YieldSource } from "../types/yields.ts";
+import { fetchJson } from "./http.ts";
+import { getUsdPrice } from "./pricing.ts";
+import { classifyAsset, createYieldId } from "./protocols.ts";
 
-const TONAPI_JETTON_URL =
-  "https://tonapi.io/v2/jettons/EQAPMnib1eghlNQ9TnLZKCMUsY1QJ4rQ7pyB7PvGWxMIeQlM";
+const MRE7YIELD_JETTON = "EQAPMnib1eghlNQ9TnLZKCMUsY1QJ4rQ7pyB7PvGWxMIeQlM";
+const TONAPI_JETTON_URL = `https://tonapi.io/v2/jettons/${MRE7YIELD_JETTON}`;
 
-const COINGECKO_PRICE_URL =
-  "https://api.coingecko.com/api/v3/simple/price?ids=midas-mre7yield&vs_currencies=usd";
+const MRE7YIELD_COINGECKO_ID = "midas-mre7yield";
 
 // Hardcoded APY - 5-year average annual return for Midas Re7 USDT product
 const MIDAS_APY = 17.98;
@@ -17,50 +19,28 @@ interface TonApiJettonResponse {
   };
 }
 
-interface CoinGeckoPriceResponse {
-  "midas-mre7yield"?: {
-    usd?: number;
-  };
-}
-
 /**
  * Fetch total supply of the mRe7YIELD jetton from TonAPI.
  * Returns the human-readable amount (adjusted for decimals).
  */
 async function fetchJettonSupply(): Promise<number> {
-  const response = await fetch(TONAPI_JETTON_URL, {
-    signal: AbortSignal.timeout(10000),
+  const data = await fetchJson<TonApiJettonResponse>(TONAPI_JETTON_URL, {
+    name: "TonAPI",
+    timeoutMs: 10000,
   });
-
-  if (!response.ok) {
-    throw new Error(`TonAPI error: ${response.status} ${response.statusText}`);
-  }
-
-  const data: TonApiJettonResponse = await response.json();
   const decimals = parseInt(data.metadata?.decimals ?? "9", 10);
   const raw = BigInt(data.total_supply);
   return Number(raw) / Math.pow(10, decimals);
 }
 
 /**
- * Fetch the USD price of mRe7YIELD from CoinGecko.
+ * Fetch the USD price of mRe7YIELD (CoinGecko ID via the pricing service).
  */
 async function fetchMidasPrice(): Promise<number> {
-  const response = await fetch(COINGECKO_PRICE_URL, {
-    signal: AbortSignal.timeout(10000),
-  });
-
-  if (!response.ok) {
-    throw new Error(
-      `CoinGecko error: ${response.status} ${response.statusText}`,
-    );
-  }
-
-  const data: CoinGeckoPriceResponse = await response.json();
-  const price = data["midas-mre7yield"]?.usd;
+  const price = await getUsdPrice({ symbol: "mRe7YIELD", coingeckoId: MRE7YIELD_COINGECKO_ID });
 
   if (!price || price <= 0) {
-    throw new Error("CoinGecko returned no price for midas-mre7yield");
+    throw new Error(`No USD price for ${MRE7YIELD_COINGECKO_ID}`);
   }
 
   return price;
@@ -71,34 +51,47 @@ async function fetchMidasPrice(): Promise<number> {
  * APY is set to the 5-year average annual return of the underlying Midas product.
  * TVL is calculated dynamically: mRe7YIELD total supply × current USD price.
  */
-export async function fetchMidasVaultYield(): Promise<YieldOpportunity | null> {
+export async function fetchMidasVaultYield(): Promise<YieldOpportunity> {
   console.log("Fetching Midas Re7 USDT vault TVL...");
 
-  try {
-    const [supply, price] = await Promise.all([
-      fetchJettonSupply(),
-      fetchMidasPrice(),
-    ]);
-
-    const tvlUsd = supply * price;
-    console.log(
-      `Midas vault: supply=${supply.toFixed(2)} mRe7YIELD, price=$${price.toFixed(4)}, TVL=$${tvlUsd.toFixed(0)}`,
-    );
-
-    return {
-      assetType: "STABLE",
-      source: "Telegram Wallet",
-      sourceUrl: TELEGRAM_WALLET_URL,
-      asset: "Midas USDT vault",
-      poolMeta: null,
-      apyBase: MIDAS_APY,
-      apyReward: null,
-      apyTotal: MIDAS_APY,
-      tvlUsd,
-      apyNote: "5y avg",
-    };
-  } catch (error) {
-    console.error("Failed to fetch Midas vault data:", error);
-    return null;
-  }
+  const [supply, price] = await Promise.all([
+    fetchJettonSupply(),
+    fetchMidasPrice(),
+  ]);
+
+  const tvlUsd = supply * price;
+  const fetchedAt = new Date().toISOString();
+  console.log(
+    `Midas vault: supply=${supply.toFixed(2)} mRe7YIELD, price=$${price.toFixed(4)}, TVL=$${tvlUsd.toFixed(0)}`,
+  );
+
+  return {
+    id: createYieldId("TonAPI", "TON", MRE7YIELD_JETTON),
+    chain: "TON",
+    upstreamId: MRE7YIELD_JETTON,
+    dataSource: "TonAPI",
+    fetchedAt,
+    tvlEstimated: true, // Jetton supply × price
+    assetType: classifyAsset("mRe7YIELD", MRE7YIELD_JETTON),
+    source: "Telegram Wallet",
+    sourceUrl: TELEGRAM_WALLET_URL,
+    asset: "Midas USDT vault",
+    poolMeta: null,
+    apyBase: MIDAS_APY,
+    apyReward: null,
+    apyTotal: MIDAS_APY,
+    tvlUsd,
+    apyNote: "5y avg",
+  };
 }
+
+/**
+ * Midas vault yield source adapter
+ */
+export const midasSource: YieldSource = {
+  id: "midas",
+  name: "Midas",
+  fetch: async () => [await fetchMidasVaultYield()],
+  enabled: true,
+  timeoutMs: 20000,
+};
@@ -5,13 +5,16 @@
 
 import {
   classifyAsset,
+  createYieldId,
   formatProtocolName,
   getProtocolUrl,
   isCorrelatedPair,
   pairBelongsToCategory,
   isSingleAsset,
 } from "./protocols.ts";
-import type { YieldOpportunity } from "../types/yields.ts";
+import type { YieldOpportunity, YieldSource } from "../types/yields.ts";
+import { fetchJson } from "./http.ts";
+import { getTokenKey, getUsdPrices, type PriceToken } from "./pricing.ts";
 
 const MORPHO_GOLDSKY_URL =
   "https://api.goldsky.com/api/public/project_cmb98e0e8apjg01q7eg6u5w6f/subgraphs/morpho-subgraph-prod/1.0.3/gn";
@@ -56,32 +59,24 @@ interface MorphoGraphQLResponse {
  * Query Morpho Goldsky subgraph for MetaMorpho vaults
  */
 async function queryMetaMorphos(query: string): Promise<MorphoMetaMorpho[]> {
-  try {
-    const response = await fetch(MORPHO_GOLDSKY_URL, {
+  // POST requests are never cached
+  const result = await fetchJson<MorphoGraphQLResponse>(MORPHO_GOLDSKY_URL, {
+    name: "Morpho",
+    timeoutMs: 15000,
+    init: {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ query }),
-      signal: AbortSignal.timeout(15000),
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `Morpho API error: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    const result: MorphoGraphQLResponse = await response.json();
-
-    if (result.errors) {
-      console.error("Morpho GraphQL errors:", result.errors);
-      return [];
-    }
+    },
+  });
 
-    return result.data?.metaMorphos || [];
-  } catch (error) {
-    console.error("Failed to query Morpho subgraph:", error);
-    return [];
+  if (result.errors) {
+    throw new Error(
+      `Morpho GraphQL errors: ${result.errors.map((e) => e.message).join("; ")}`,
+    );
   }
+
+  return result.data?.metaMorphos || [];
 }
 
 /**
@@ -111,32 +106,21 @@ function calculateTVL(vault: MorphoMetaMorpho): number {
 }
 
 /**
- * Estimate USD value for TVL (rough approximation)
- * We don't have price feeds, so we use approximate market prices
+ * Pricing lookup for a vault's underlying asset (asset.id is its TAC address)
  */
-function estimateUSDValue(tokenAmount: number, assetSymbol: string): number {
-  // Rough price estimates (as of Jan 2026)
-  const priceEstimates: Record<string, number> = {
-    "TON": 1.75,      // ~$1.75
-    "TSTON": 1.75,    // Same as TON
-    "USD₮": 1.0,      // USDT = $1
-    "USDT": 1.0,
-    "USDC": 1.0,
-    "WETH": 3300,     // ~$3,300
-    "ETH": 3300,
-    "WBTC": 95000,    // ~$95,000
-    "CBBTC": 95000,
-    "LBTC": 95000,
-  };
-  
-  const price = priceEstimates[assetSymbol.toUpperCase()] || 0;
-  return tokenAmount * price;
+function getAssetToken(vault: MorphoMetaMorpho): PriceToken {
+  return { symbol: vault.asset.symbol, chain: "tac", address: vault.asset.id };
 }
 
 /**
  * Transform MetaMorpho vault to YieldOpportunity
+ * @param prices - USD prices keyed by getTokenKey(); vaults with an unpriced asset are skipped
  */
-function transformMetaMorpho(vault: MorphoMetaMorpho): YieldOpportunity | null {
+function transformMetaMorpho(
+  vault: MorphoMetaMorpho,
+  prices: Map<string, number>,
+  fetchedAt: string,
+): YieldOpportunity | null {
   const apy = rateToApy(vault.rate.rate);
   
   // Skip if APY is very low (below 0.01%)
@@ -145,7 +129,7 @@ function transformMetaMorpho(vault: MorphoMetaMorpho): YieldOpportunity | null {
   }
 
   const asset = vault.asset.symbol;
-  const assetType = classifyAsset(asset);
+  const assetType = classifyAsset(asset, vault.asset.id);
   
   // Skip test tokens (BMW, LADA, etc.)
   const testTokens = ["BMW", "LADA", "unknown"];
@@ -154,8 +138,12 @@ function transformMetaMorpho(vault: MorphoMetaMorpho): YieldOpportunity | null {
   }
   
   // Calculate TVL (deployed capital + idle)
+  const price = prices.get(getTokenKey(getAssetToken(vault)));
+  if (price === undefined) {
+    return null;
+  }
   const tvlInTokens = calculateTVL(vault);
-  const tvlUsd = estimateUSDValue(tvlInTokens, asset);
+  const tvlUsd = tvlInTokens * price;
 
   // Skip vaults with no TVL
   if (tvlUsd < 100) {
@@ -163,6 +151,12 @@ function transformMetaMorpho(vault: MorphoMetaMorpho): YieldOpportunity | null {
   }
 
   return {
+    id: createYieldId("Goldsky", "TAC", vault.id),
+    chain: "TAC",
+    upstreamId: vault.id,
+    dataSource: "Goldsky",
+    fetchedAt,
+    tvlEstimated: true, // Token amount × price
     assetType,
     source: "Morpho",
     sourceUrl: getProtocolUrl("morpho"),
@@ -172,6 +166,7 @@ function transformMetaMorpho(vault: MorphoMetaMorpho): YieldOpportunity | null {
     apyReward: null,
     apyTotal: apy,
     tvlUsd,
+    address: vault.id,
   };
 }
 
@@ -226,11 +221,15 @@ export async function fetchMorphoYields(): Promise<YieldOpportunity[]> {
 
   // Fetch MetaMorpho vaults
   const vaults = await queryMetaMorphos(metaMorphosQuery);
+  const fetchedAt = new Date().toISOString();
   console.log(`Fetched ${vaults.length} MetaMorpho vaults`);
 
+  // Price underlying assets in one batch
+  const prices = await getUsdPrices(vaults.map(getAssetToken));
+
   // Transform vaults to yield opportunities
   const yields = vaults
-    .map(transformMetaMorpho)
+    .map(vault => transformMetaMorpho(vault, prices, fetchedAt))
     .filter((y): y is YieldOpportunity => y !== null);
 
   console.log(`${yields.length} Morpho yields after transformation`);
@@ -241,3 +240,15 @@ export async function fetchMorphoYields(): Promise<YieldOpportunity[]> {
 
   return correlatedYields;
 }
+
+/**
+ * Morpho (Goldsky subgraph) yield source adapter
+ */
+export const morphoSource: YieldSource = {
+  id: "morpho",
+  name: "Morpho",
+  fetch: fetchMorphoYields,
+  attribution: { name: "Goldsky", url: "https://goldsky.com/" },
+  enabled: true,
+  timeoutMs: 30000,
+};
@@ -0,0 +1,190 @@
+/**
+ * USD Pricing Service
+ * Resolves token prices so sources that only know token amounts
+ * (Morpho, Euler, Midas) can report TVL in dollars
+ *
+ * Lookup order per token:
+ *   1. Contract address on its chain (DefiLlama coins API, e.g. "tac:0x...")
+ *   2. CoinGecko ID (via the same API, e.g. "coingecko:ethereum"), from the token registry if not given
+ *   3. $1 peg for plain USD stablecoins (per the token registry) when the API has no price
+ *
+ * The provider is swappable (setPriceProvider) so tests can use a static price table.
+ */
+
+import { config } from "../config.ts";
+import { fetchJson } from "./http.ts";
+import { findToken, isPlainStablecoin } from "./tokens.ts";
+
+/**
+ * Token to price; at least one of address or coingeckoId should be set
+ */
+export interface PriceToken {
+  symbol: string;
+  /** DefiLlama chain slug (e.g., "tac", "ton") */
+  chain?: string;
+  address?: string;
+  coingeckoId?: string;
+}
+
+/**
+ * Source of USD prices, keyed by getTokenKey()
+ * Tokens it can't price are left out of the result
+ */
+export interface PriceProvider {
+  name: string;
+  fetchPrices(tokens: PriceToken[]): Promise<Map<string, number>>;
+}
+
+interface DefiLlamaCoinsResponse {
+  coins: Record<string, { price: number; symbol?: string; confidence?: number }>;
+}
+
+const DEFILLAMA_COINS_URL = "https://coins.llama.fi/prices/current";
+
+const priceCache = new Map<string, { price: number; expiresAt: number }>();
+
+/**
+ * Stable cache key for a token
+ * e.g., "tac:0xabc...", "coingecko:ethereum", "symbol:USDT"
+ */
+export function getTokenKey(token: PriceToken): string {
+  if (token.address && token.chain) {
+    return `${token.chain.toLowerCase()}:${token.address.toLowerCase()}`;
+  }
+  if (token.coingeckoId) {
+    return `coingecko:${token.coingeckoId}`;
+  }
+  return `symbol:${token.symbol.toUpperCase()}`;
+}
+
+/**
+ * DefiLlama coins API candidates for a token, most specific first
+ */
+function getCoinIds(token: PriceToken): string[] {
+  const ids: string[] = [];
+  if (token.address && token.chain) {
+    ids.push(`${token.chain.toLowerCase()}:${token.address.toLowerCase()}`);
+  }
+  const coingeckoId = token.coingeckoId ?? findToken(token.symbol, token.address)?.coingeckoId;
+  if (coingeckoId) {
+    ids.push(`coingecko:${coingeckoId}`);
+  }
+  return ids;
+}
+
+/**
+ * Price provider backed by the DefiLlama coins API (covers CoinGecko IDs too)
+ */
+export const defiLlamaPriceProvider: PriceProvider = {
+  name: "DefiLlama",
+  async fetchPrices(tokens: PriceToken[]): Promise<Map<string, number>> {
+    const coinIds = [...new Set(tokens.flatMap(getCoinIds))].sort();
+    const prices = new Map<string, number>();
+    if (coinIds.length === 0) {
+      return prices;
+    }
+
+    const url = `${DEFILLAMA_COINS_URL}/${coinIds.map(encodeURIComponent).join(",")}`;
+    const data = await fetchJson<DefiLlamaCoinsResponse>(url, {
+      name: "DefiLlama coins",
+      timeoutMs: 10000,
+    });
+
+    // Addresses come back lowercased or checksummed depending on the chain
+    const byId = new Map(Object.entries(data.coins).map(([id, coin]) => [id.toLowerCase(), coin.price]));
+    for (const token of tokens) {
+      const price = getCoinIds(token).map(id => byId.get(id.toLowerCase())).find(p => p !== undefined && p > 0);
+      if (price !== undefined) {
+        prices.set(getTokenKey(token), price);
+      }
+    }
+    return prices;
+  },
+};
+
+/**
+ * Price provider with fixed prices by symbol (for tests and offline runs)
+ */
+export function createStaticPriceProvider(pricesBySymbol: Record<string, number>): PriceProvider {
+  const table = new Map(Object.entries(pricesBySymbol).map(([symbol, price]) => [symbol.toUpperCase(), price]));
+  return {
+    name: "Static",
+    fetchPrices(tokens: PriceToken[]): Promise<Map<string, number>> {
+      const prices = new Map<string, number>();
+      for (const token of tokens) {
+        const price = table.get(token.symbol.toUpperCase());
+        if (price !== undefined) {
+          prices.set(getTokenKey(token), price);
+        }
+      }
+      return Promise.resolve(prices);
+    },
+  };
+}
+
+let provider: PriceProvider = defiLlamaPriceProvider;
+
+/**
+ * Replace the price provider (clears cached prices)
+ */
+export function setPriceProvider(next: PriceProvider): void {
+  provider = next;
+  priceCache.clear();
+}
+
+/**
+ * Get USD prices for a list of tokens
+ * Returns a Map of getTokenKey(token) -> price; tokens that can't be priced are omitted.
+ * Provider failures are logged and treated as "no price" so callers can decide what to skip.
+ */
+export async function getUsdPrices(tokens: PriceToken[]): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+  const now = Date.now();
+  const missing: PriceToken[] = [];
+
+  for (const token of tokens) {
+    const key = getTokenKey(token);
+    const cached = priceCache.get(key);
+    if (cached && cached.expiresAt > now) {
+      prices.set(key, cached.price);
+    } else if (!missing.some(t => getTokenKey(t) === key)) {
+      missing.push(token);
+    }
+  }
+
+  if (missing.length > 0) {
+    try {
+      const fetched = await provider.fetchPrices(missing);
+      for (const [key, price] of fetched) {
+        prices.set(key, price);
+        priceCache.set(key, { price, expiresAt: now + config.priceCacheTtlMs });
+      }
+    } catch (error) {
+      console.error(`Failed to fetch prices from ${provider.name}:`, error);
+    }
+  }
+
+  // Peg fallback for plain stablecoins (not cached, so a real price is retried next time)
+  for (const token of missing) {
+    const key = getTokenKey(token);
+    const registered = findToken(token.symbol, token.address);
+    if (!prices.has(key) && registered && isPlainStablecoin(registered)) {
+      prices.set(key, 1);
+    }
+  }
+
+  const unpriced = missing.filter(t => !prices.has(getTokenKey(t)));
+  if (unpriced.length > 0) {
+    console.warn(`No USD price for: ${unpriced.map(t => t.symbol).join(", ")}`);
+  }
+
+  return prices;
+}
+
+/**
+ * Get the USD price of a single token (null if it can't be priced)
+ */
+export async function getUsdPrice(token: PriceToken): Promise<number | null> {
+  const prices = await getUsdPrices([token]);
+  return prices.get(getTokenKey(token)) ?? null;
+}
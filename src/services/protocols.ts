@@ -1,4 +1,14 @@
-import type { AssetType } from "../types/yields.ts";
+import type { AssetType, Chain, DataSource } from "../types/yields.ts";
+import { findToken, resolveCategory } from "./tokens.ts";
+
+/**
+ * Build a YieldOpportunity ID that survives label changes
+ * e.g., ("Swap Coffee", "TON", "EQB...") -> "swapcoffee:ton:EQB..."
+ */
+export function createYieldId(dataSource: DataSource, chain: Chain, upstreamId: string): string {
+  const slug = dataSource.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return `${slug}:${chain.toLowerCase()}:${upstreamId}`;
+}
 
 /**
  * Protocol URL mappings
@@ -117,105 +127,6 @@ export function isExcludedAsset(symbol: string): boolean {
   );
 }
 
-/**
- * ETH and related assets - NOT included in TON yields
- * These are TAC-bridged Ethereum assets we want to exclude
- */
-const ETH_ASSETS = [
-  "ETH",
-  "WETH",
-  // Lido
-  "stETH",
-  "wstETH",
-  "STETH",
-  "WSTETH",
-  // Rocket Pool
-  "rETH",
-  "RETH",
-  // Kelp
-  "rsETH",
-  "wrsETH",
-  "RSETH",
-  "WRSETH",
-  // Puffer
-  "pufETH",
-  "PUFETH",
-  // EtherFi
-  "eETH",
-  "weETH",
-  "EETH",
-  "WEETH",
-];
-
-/**
- * Check if an asset is an ETH asset (should be excluded from our feeds)
- */
-export function isEthAsset(symbol: string): boolean {
-  const upperSymbol = symbol.toUpperCase().replace(/[^A-Z0-9]/g, "");
-  return ETH_ASSETS.some(eth => 
-    upperSymbol === eth.replace(/[^A-Z0-9]/g, "") || 
-    upperSymbol.startsWith(eth.replace(/[^A-Z0-9]/g, ""))
-  );
-}
-
-/**
- * Stablecoin asset identifiers
- * Includes native TON stables and TAC-bridged assets
- */
-const STABLE_ASSETS = [
-  // Native/Common
-  "USDT",
-  "USD₮",
-  "USDC",
-  "DAI",
-  // Ethena
-  "USDE",
-  "SUSDE",
-  "TSUSDE",
-  // Resolv
-  "USR",
-  "RLP",
-  "WSTUSR",
-  "STUSR",
-  // Usual
-  "USD0",
-  "USD0++",
-  // USN
-  "USN",
-  "SUSN",
-  // Other stables
-  "TUSD",
-  "BUSD",
-  "FRAX",
-  "LUSD",
-];
-
-/**
- * Bitcoin asset identifiers
- */
-const BTC_ASSETS = [
-  "cbBTC",
-  "WBTC",
-  "tBTC",
-  "BTC",
-  "LBTC",
-  "M-BTC",
-  "MBTC",
-  "uniBTC",
-];
-
-/**
- * TON and related assets (LSTs, etc.)
- */
-const TON_ASSETS = [
-  "TON",
-  "TSTON",
-  "STTON",
-  "HTON",
-  "BMTON",
-  "WTON",
-];
-
 /**
  * Correlated pairs - assets that move together (no impermanent loss risk)
  */
@@ -298,28 +209,12 @@ const CORRELATED_PAIRS: Record<AssetType, string[][]> = {
 };
 
 /**
- * Classify an asset symbol into asset type category
+ * Classify an asset symbol into asset type category using the token registry
+ * Pass the token's contract address when known; it takes precedence over the symbol.
+ * Tokens missing from the registry are "UNKNOWN" (reported to the admin, never posted).
  */
-export function classifyAsset(symbol: string): AssetType {
-  const upperSymbol = symbol.toUpperCase().replace(/[^A-Z0-9]/g, "");
-  
-  // Check for stablecoins first (most specific)
-  if (STABLE_ASSETS.some(stable => upperSymbol.includes(stable.replace(/[^A-Z0-9]/g, "")))) {
-    return "STABLE";
-  }
-  
-  // Check for BTC assets
-  if (BTC_ASSETS.some(btc => upperSymbol.includes(btc.replace(/[^A-Z0-9]/g, "")))) {
-    return "BTC";
-  }
-
-  // Check for ETH assets (use includes so vault names like "Re7 WETH V2 vault on Morpho" are caught)
-  if (ETH_ASSETS.some(eth => upperSymbol.includes(eth.replace(/[^A-Z0-9]/g, "")))) {
-    return "ETH";
-  }
-  
-  // Default to TON category
-  return "TON";
+export function classifyAsset(symbol: string, address?: string): AssetType {
+  return resolveCategory(symbol, address);
 }
 
 /**
@@ -417,7 +312,8 @@ export function isCorrelatedPair(symbol: string, assetType: AssetType): boolean
   }
   
   const [asset1, asset2] = pair;
-  const correlatedPairs = CORRELATED_PAIRS[assetType];
+  // Asset types without a list (e.g., UNKNOWN) never form a correlated pair
+  const correlatedPairs = CORRELATED_PAIRS[assetType] ?? [];
   
   // Check if this pair exists in correlated pairs (order doesn't matter)
   return correlatedPairs.some(([a, b]) => 
@@ -440,37 +336,8 @@ export function pairBelongsToCategory(symbol: string, assetType: AssetType): boo
     return false;
   }
   
-  const [asset1, asset2] = pair;
-  
-  // For TON category: both assets should be TON-related
-  if (assetType === "TON") {
-    const isTon1 = TON_ASSETS.some(t => asset1.includes(t));
-    const isTon2 = TON_ASSETS.some(t => asset2.includes(t));
-    return isTon1 && isTon2;
-  }
-  
-  // For STABLE category: both assets should be stablecoins
-  if (assetType === "STABLE") {
-    const isStable1 = STABLE_ASSETS.some(s => asset1.includes(s.replace(/[^A-Z0-9]/g, "")));
-    const isStable2 = STABLE_ASSETS.some(s => asset2.includes(s.replace(/[^A-Z0-9]/g, "")));
-    return isStable1 && isStable2;
-  }
-  
-  // For BTC category: both assets should be BTC-related
-  if (assetType === "BTC") {
-    const isBtc1 = BTC_ASSETS.some(b => asset1.includes(b));
-    const isBtc2 = BTC_ASSETS.some(b => asset2.includes(b));
-    return isBtc1 && isBtc2;
-  }
-  
-  // For ETH category: both assets should be ETH-related
-  if (assetType === "ETH") {
-    const isEth1 = ETH_ASSETS.some(e => asset1.includes(e.replace(/[^A-Z0-9]/g, "")));
-    const isEth2 = ETH_ASSETS.some(e => asset2.includes(e.replace(/[^A-Z0-9]/g, "")));
-    return isEth1 && isEth2;
-  }
-  
-  return false;
+  // Both assets must be registered tokens of this category
+  return pair.every(asset => findToken(asset)?.category === assetType);
 }
 
 /**
@@ -0,0 +1,131 @@
+/**
+ * Aggregation Run Reports
+ * Stores a per-source health report for every aggregation run
+ * Uses Deno KV for persistent storage across deployments
+ */
+
+import type { RunReport } from "../types/yields.ts";
+import { getKv } from "./kv.ts";
+
+const KV_PREFIX = ["run_reports"];
+const REPORT_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Keep last 30 days
+
+/**
+ * Save a run report, keyed by its start time
+ * Reports expire automatically after 30 days
+ */
+export async function saveRunReport(report: RunReport): Promise<void> {
+  try {
+    const kv = await getKv();
+    await kv.set([...KV_PREFIX, report.startedAt], report, { expireIn: REPORT_TTL_MS });
+    console.log(`✓ Run report saved to KV: ${report.startedAt}`);
+  } catch (error) {
+    console.error("Failed to save run report to KV:", error);
+  }
+}
+
+/**
+ * Delete a run report (e.g. a run superseded by a regenerated one)
+ */
+export async function deleteRunReport(startedAt: string): Promise<void> {
+  try {
+    const kv = await getKv();
+    await kv.delete([...KV_PREFIX, startedAt]);
+  } catch (error) {
+    console.error("Failed to delete run report from KV:", error);
+  }
+}
+
+/**
+ * Get the most recent run report (or null if none stored yet)
+ */
+export async function getLatestRunReport(): Promise<RunReport | null> {
+  try {
+    const kv = await getKv();
+    let latest: RunReport | null = null;
+    for await (const entry of kv.list<RunReport>({ prefix: KV_PREFIX }, { reverse: true, limit: 1 })) {
+      latest = entry.value;
+    }
+    return latest;
+  } catch (error) {
+    console.error("Failed to load latest run report from KV:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the most recent run report whose post wasn't held by the sanity guard
+ * (or null if none stored yet) - the baseline the next run is checked against
+ */
+export async function getLatestAcceptedRunReport(): Promise<RunReport | null> {
+  try {
+    const kv = await getKv();
+    for await (const entry of kv.list<RunReport>({ prefix: KV_PREFIX }, { reverse: true })) {
+      if (!entry.value.sanityIssues?.length) {
+        return entry.value;
+      }
+    }
+    return null;
+  } catch (error) {
+    console.error("Failed to load run reports from KV:", error);
+    return null;
+  }
+}
+
+/**
+ * Get all stored run reports (last 30 days), oldest first
+ */
+export async function listRunReports(): Promise<RunReport[]> {
+  const kv = await getKv();
+  const reports: RunReport[] = [];
+  for await (const entry of kv.list<RunReport>({ prefix: KV_PREFIX })) {
+    reports.push(entry.value);
+  }
+  return reports;
+}
+
+/**
+ * Get sources that failed (error or timeout) during a run
+ */
+export function getFailedSources(report: RunReport): RunReport["sources"] {
+  return report.sources.filter(s => s.status === "error" || s.status === "timeout");
+}
+
+/**
+ * Log a run report as a readable per-source table
+ * Example: "  ✓ Merkl         ok       42 pools   812ms"
+ */
+export function logRunReport(report: RunReport): void {
+  console.log(`Run report (${report.startedAt} → ${report.finishedAt}):`);
+  for (const source of report.sources) {
+    const icon = source.status === "ok" ? "✓" : source.status === "empty" ? "○" : "✗";
+    const error = source.error ? ` — ${source.error}` : "";
+    console.log(
+      `  ${icon} ${source.name.padEnd(12)} ${source.status.padEnd(8)} ${String(source.poolCount).padStart(4)} pools ${String(source.latencyMs).padStart(6)}ms${error}`,
+    );
+  }
+  for (const decision of report.dedup) {
+    console.log(`  ⇄ ${decision.key}: kept ${decision.winner}, dropped ${decision.dropped.join(", ")}`);
+  }
+  for (const unknown of report.unknownAssets) {
+    console.log(`  ? ${unknown.protocol} ${unknown.asset}: token not in registry (${unknown.id})`);
+  }
+}
+
+/**
+ * Build the admin notice listing pools skipped for unregistered tokens
+ * Returns null when every token was recognized
+ */
+export function formatUnknownAssetsNotice(report: RunReport): string | null {
+  if (report.unknownAssets.length === 0) {
+    return null;
+  }
+
+  const lines = report.unknownAssets.map(unknown => `• ${unknown.protocol}: ${unknown.asset} (${unknown.id})`);
+  return [
+    `❓ ${report.unknownAssets.length} pool(s) skipped - token not in the registry:`,
+    ...lines,
+    "",
+    "Add them to src/services/tokens.ts to include them in the daily post.",
+  ].join("\n");
+}
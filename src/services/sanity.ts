@@ -0,0 +1,133 @@
+/**
+ * Pre-publish Sanity Guard
+ * Compares a run with the last accepted run's stored report and flags results
+ * that look like a broken upstream rather than a real market move:
+ *   - total pools, or one source's pools, down by more than maxPoolDropPercent
+ *   - a category that had pools last time is empty
+ *   - TON DeFi TVL of 0, or a chain whose pools add up to $0 TVL
+ *   - a pool with a total APY above maxApy
+ * A run with any issue is held for the admins instead of being posted.
+ */
+
+import type { GroupedYields, RunReport } from "../types/yields.ts";
+import { config } from "../config.ts";
+import { flattenYields, getCategories } from "./categories.ts";
+
+/**
+ * A failed check
+ */
+export interface SanityIssue {
+  check: "pool_drop" | "source_drop" | "category_missing" | "zero_tvl" | "apy_outlier";
+  /** Human-readable description for the admin notice */
+  message: string;
+}
+
+/**
+ * Thresholds the guard applies (config.sanity by default)
+ */
+export interface SanityThresholds {
+  maxPoolDropPercent: number;
+  maxApy: number;
+}
+
+/**
+ * The run being checked
+ */
+export interface SanityInput {
+  yields: GroupedYields;
+  report: RunReport;
+  /** TON DeFi TVL fetched for the post */
+  tonTvl: number;
+}
+
+/**
+ * Percentage drop from previous to current (0 when it didn't fall)
+ */
+function dropPercent(previous: number, current: number): number {
+  return previous > 0 && current < previous ? ((previous - current) / previous) * 100 : 0;
+}
+
+/**
+ * Check a run against the previous accepted run
+ * Without a previous report only the checks that need no history (TVL, APY) run.
+ */
+export function checkRunSanity(
+  run: SanityInput,
+  previous: RunReport | null,
+  thresholds: SanityThresholds = config.sanity,
+): SanityIssue[] {
+  const issues: SanityIssue[] = [];
+  const pools = flattenYields(run.yields);
+
+  if (previous?.categoryCounts) {
+    const previousTotal = Object.values(previous.categoryCounts).reduce((sum, count) => sum + count, 0);
+    const drop = dropPercent(previousTotal, pools.length);
+    if (drop > thresholds.maxPoolDropPercent) {
+      issues.push({
+        check: "pool_drop",
+        message: `Pool count fell ${drop.toFixed(0)}% (${previousTotal} → ${pools.length})`,
+      });
+    }
+
+    for (const category of getCategories()) {
+      const previousCount = previous.categoryCounts[category.id] ?? 0;
+      if (previousCount > 0 && run.yields[category.id].length === 0) {
+        issues.push({
+          check: "category_missing",
+          message: `${category.id} is empty (had ${previousCount} pools)`,
+        });
+      }
+    }
+  }
+
+  // Only sources that ran both times are compared
+  for (const source of run.report.sources) {
+    const before = previous?.sources.find(s => s.id === source.id);
+    if (!before) continue;
+    const drop = dropPercent(before.poolCount, source.poolCount);
+    if (drop > thresholds.maxPoolDropPercent) {
+      issues.push({
+        check: "source_drop",
+        message: `${source.name} returned ${source.poolCount} pools (had ${before.poolCount}, ${source.status})`,
+      });
+    }
+  }
+
+  if (run.tonTvl <= 0) {
+    issues.push({ check: "zero_tvl", message: "TON DeFi TVL is $0" });
+  }
+  const chainTvls = new Map<string, number>();
+  for (const pool of pools) {
+    chainTvls.set(pool.chain, (chainTvls.get(pool.chain) ?? 0) + pool.tvlUsd);
+  }
+  for (const [chain, tvl] of chainTvls) {
+    if (tvl <= 0) {
+      issues.push({ check: "zero_tvl", message: `${chain} pools add up to $0 TVL` });
+    }
+  }
+
+  for (const pool of pools) {
+    if (pool.apyTotal > thresholds.maxApy) {
+      issues.push({
+        check: "apy_outlier",
+        message: `${pool.source} ${pool.asset} APY ${pool.apyTotal.toFixed(1)}% is above ${thresholds.maxApy}%`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Build the admin notice for a held post
+ */
+export function formatSanityNotice(issues: SanityIssue[], draftSent: boolean): string {
+  return [
+    `🛑 Daily post held - ${issues.length} sanity check(s) failed:`,
+    ...issues.map(issue => `• ${issue.message}`),
+    "",
+    draftSent
+      ? "The post was sent above for review; it won't be published automatically."
+      : "Nothing was posted.",
+  ].join("\n");
+}
@@ -0,0 +1,139 @@
+import { assertEquals } from "std/assert/mod.ts";
+import type { GroupedYields, RunReport } from "../types/yields.ts";
+import { groupByCategory } from "./categories.ts";
+import { setKv } from "./kv.ts";
+import { getLatestAcceptedRunReport, saveRunReport } from "./run_reports.ts";
+import { checkRunSanity, type SanityIssue } from "./sanity.ts";
+import { createPool } from "../testing/pools.ts";
+
+const THRESHOLDS = { maxPoolDropPercent: 50, maxApy: 200 };
+
+function createReport(poolCounts: Record<string, number>, yields?: GroupedYields): RunReport {
+  return {
+    startedAt: "2026-10-19T09:00:00.000Z",
+    finishedAt: "2026-10-19T09:00:04.000Z",
+    sources: Object.entries(poolCounts).map(([id, poolCount]) => ({
+      id,
+      name: id,
+      status: poolCount > 0 ? "ok" : "empty",
+      latencyMs: 100,
+      poolCount,
+    })),
+    dedup: [],
+    unknownAssets: [],
+    categoryCounts: yields ? Object.fromEntries(Object.entries(yields).map(([id, pools]) => [id, pools.length])) : undefined,
+  };
+}
+
+/** Failed checks with their messages, e.g. "pool_drop: Pool count fell 75% (4 → 1)" */
+function describe(issues: SanityIssue[]): string[] {
+  return issues.map(issue => `${issue.check}: ${issue.message}`);
+}
+
+const healthyYields = groupByCategory([
+  createPool({ asset: "tsTON", assetType: "TON" }),
+  createPool({ asset: "USDT" }),
+  createPool({ asset: "USDC" }),
+  createPool({ asset: "USDe" }),
+]);
+
+Deno.test("a run like the previous one passes", () => {
+  const previous = createReport({ defillama: 3, swapcoffee: 1 }, healthyYields);
+  const run = { yields: healthyYields, report: createReport({ defillama: 3, swapcoffee: 1 }), tonTvl: 100_000_000 };
+  assertEquals(checkRunSanity(run, previous, THRESHOLDS), []);
+  // Without history only TVL and APY are checked
+  assertEquals(checkRunSanity(run, null, THRESHOLDS), []);
+});
+
+Deno.test("a partial run fails the guard", () => {
+  const previous = createReport({ defillama: 3, swapcoffee: 1 }, healthyYields);
+  const yields = groupByCategory([createPool({ asset: "USDT", tvlUsd: 0, apyTotal: 540 })]);
+  const issues = checkRunSanity({ yields, report: createReport({ defillama: 1, swapcoffee: 0 }), tonTvl: 0 }, previous, THRESHOLDS);
+
+  assertEquals(issues.map(issue => issue.message), [
+    "Pool count fell 75% (4 → 1)",
+    "TON is empty (had 1 pools)",
+    "defillama returned 1 pools (had 3, ok)",
+    "swapcoffee returned 0 pools (had 1, empty)",
+    "TON DeFi TVL is $0",
+    "TON pools add up to $0 TVL",
+    "EVAA USDT APY 540.0% is above 200%",
+  ]);
+});
+
+Deno.test("pool_drop flags a total pool count falling past the threshold", () => {
+  const stables = (count: number) =>
+    groupByCategory(["USDT", "USDC", "USDe", "DAI"].slice(0, count).map(asset => createPool({ asset })));
+  const previous = createReport({}, stables(4));
+
+  // 4 → 2 is exactly 50%: allowed
+  assertEquals(checkRunSanity({ yields: stables(2), report: createReport({}), tonTvl: 1 }, previous, THRESHOLDS), []);
+  const issues = checkRunSanity({ yields: stables(1), report: createReport({}), tonTvl: 1 }, previous, THRESHOLDS);
+  assertEquals(describe(issues), ["pool_drop: Pool count fell 75% (4 → 1)"]);
+});
+
+Deno.test("source_drop compares only sources that ran both times", () => {
+  const previous = createReport({ defillama: 10, merkl: 4 });
+  const report = createReport({ defillama: 4, merkl: 2, morpho: 0 });
+
+  // Morpho wasn't in the previous run; Merkl lost exactly half
+  assertEquals(describe(checkRunSanity({ yields: healthyYields, report, tonTvl: 1 }, previous, THRESHOLDS)), [
+    "source_drop: defillama returned 4 pools (had 10, ok)",
+  ]);
+});
+
+Deno.test("category_missing flags only categories that had pools", () => {
+  // No BTC pools last time either, so an empty BTC is fine
+  const previous = createReport({}, groupByCategory([createPool({ asset: "USDT" }), createPool({ asset: "USDC" })]));
+  const yields = groupByCategory([createPool({ asset: "tsTON", assetType: "TON" }), createPool({ asset: "tsTON", source: "Bemo", assetType: "TON" })]);
+
+  assertEquals(describe(checkRunSanity({ yields, report: createReport({}), tonTvl: 1 }, previous, THRESHOLDS)), [
+    "category_missing: STABLE is empty (had 2 pools)",
+  ]);
+});
+
+Deno.test("zero_tvl flags a zero TON TVL and a chain whose pools add up to $0", () => {
+  const yields = groupByCategory([
+    createPool({ asset: "USDT" }),
+    createPool({ asset: "USDC", chain: "TAC", tvlUsd: 0 }),
+  ]);
+
+  assertEquals(describe(checkRunSanity({ yields, report: createReport({}), tonTvl: 0 }, null, THRESHOLDS)), [
+    "zero_tvl: TON DeFi TVL is $0",
+    "zero_tvl: TAC pools add up to $0 TVL",
+  ]);
+});
+
+Deno.test("apy_outlier flags pools above the maximum APY", () => {
+  const yields = groupByCategory([
+    createPool({ asset: "USDT", apyTotal: 200 }),
+    createPool({ asset: "USDC", source: "Storm", apyTotal: 250 }),
+  ]);
+
+  assertEquals(describe(checkRunSanity({ yields, report: createReport({}), tonTvl: 1 }, null, THRESHOLDS)), [
+    "apy_outlier: Storm USDC APY 250.0% is above 200%",
+  ]);
+});
+
+Deno.test("without an accepted baseline only the TVL and APY checks run", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    // The only stored run was held, so there's nothing to compare against
+    await saveRunReport({ ...createReport({ defillama: 40 }, healthyYields), sanityIssues: ["TON DeFi TVL is $0"] });
+    const previous = await getLatestAcceptedRunReport();
+    assertEquals(previous, null);
+
+    const yields = groupByCategory([createPool({ asset: "USDT", apyTotal: 900 })]);
+    const issues = checkRunSanity({ yields, report: createReport({ defillama: 1 }), tonTvl: 1 }, previous, THRESHOLDS);
+    assertEquals(issues.map(issue => issue.check), ["apy_outlier"]);
+
+    // A report stored before category counts existed skips the pool and category checks
+    const legacy = createReport({ defillama: 1 });
+    assertEquals(checkRunSanity({ yields, report: createReport({ defillama: 1 }), tonTvl: 1 }, legacy, THRESHOLDS).map(i => i.check), [
+      "apy_outlier",
+    ]);
+  } finally {
+    kv.close();
+  }
+});
@@ -0,0 +1,268 @@
+/**
+ * Pool Snapshot Store
+ * One dated KV record per pool per day: ["pool_snapshots", poolId, "YYYY-MM-DD"]
+ *
+ * Writes are blind sets grouped into atomic batches (no read-modify-write),
+ * so overlapping runs can't lose each other's updates. History is read
+ * back with prefix lists instead of one get per pool.
+ */
+
+import { getKv } from "./kv.ts";
+import { getDateDaysAgo } from "./clock.ts";
+
+/**
+ * Display fields of a tracked pool
+ */
+export interface PoolLabel {
+  source: string;
+  asset: string;
+  poolMeta: string | null;
+}
+
+/**
+ * A pool's APY/TVL on a given day
+ */
+export interface PoolSnapshot {
+  date: string; // ISO date string (YYYY-MM-DD)
+  apy: number;
+  /** Pool TVL in USD (missing in snapshots migrated from before TVL tracking) */
+  tvl?: number;
+  timestamp: number;
+  /** Display fields, so pools that disappear can still be named */
+  label?: PoolLabel;
+}
+
+/**
+ * Legacy per-pool record (["apy_history", poolId]) holding every snapshot in one value
+ */
+interface LegacyPoolHistory {
+  poolId: string;
+  snapshots: Array<Omit<PoolSnapshot, "label">>;
+  label?: PoolLabel;
+}
+
+const KV_PREFIX = ["pool_snapshots"];
+const LEGACY_PREFIX = ["apy_history"];
+const MIGRATION_KEY = ["migrations", "pool_snapshots_v1"];
+const REKEY_MIGRATION_KEY = ["migrations", "pool_ids_v1"];
+
+export const MAX_HISTORY_DAYS = 30; // Keep last 30 days
+const SNAPSHOT_TTL_MS = (MAX_HISTORY_DAYS + 1) * 24 * 60 * 60 * 1000;
+
+/** Mutations per atomic commit (well below Deno KV's per-operation limit) */
+const ATOMIC_BATCH_SIZE = 100;
+
+/** Entries fetched per round trip when listing */
+const LIST_BATCH_SIZE = 500;
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Get the oldest date still inside the history window (YYYY-MM-DD)
+ * Expired records may linger until KV cleans them up, so reads filter by date too
+ */
+function getHistoryCutoff(): string {
+  return getDateDaysAgo(MAX_HISTORY_DAYS - 1);
+}
+
+/**
+ * Write entries in atomic batches
+ */
+async function commitInBatches(
+  kv: Deno.Kv,
+  entries: Array<{ key: Deno.KvKey; value: PoolSnapshot }>,
+): Promise<void> {
+  for (let i = 0; i < entries.length; i += ATOMIC_BATCH_SIZE) {
+    const op = kv.atomic();
+    for (const { key, value } of entries.slice(i, i + ATOMIC_BATCH_SIZE)) {
+      op.set(key, value, { expireIn: SNAPSHOT_TTL_MS });
+    }
+    const result = await op.commit();
+    if (!result.ok) {
+      throw new Error(`Snapshot batch ${i / ATOMIC_BATCH_SIZE + 1} failed to commit`);
+    }
+  }
+}
+
+/**
+ * Move legacy ["apy_history", poolId] records into dated snapshot records
+ * Runs once; a marker key records completion
+ */
+async function migrateLegacyHistory(): Promise<void> {
+  const kv = await getKv();
+  if ((await kv.get(MIGRATION_KEY)).value) {
+    return;
+  }
+
+  const cutoff = getHistoryCutoff();
+  const entries: Array<{ key: Deno.KvKey; value: PoolSnapshot }> = [];
+  const legacyKeys: Deno.KvKey[] = [];
+
+  for await (const entry of kv.list<LegacyPoolHistory>({ prefix: LEGACY_PREFIX }, { batchSize: LIST_BATCH_SIZE })) {
+    const history = entry.value;
+    legacyKeys.push(entry.key);
+    for (const snapshot of history.snapshots) {
+      if (snapshot.date < cutoff) continue;
+      entries.push({
+        key: [...KV_PREFIX, history.poolId, snapshot.date],
+        value: { ...snapshot, label: history.label },
+      });
+    }
+  }
+
+  await commitInBatches(kv, entries);
+
+  // Delete legacy records only after their snapshots are safely written
+  for (let i = 0; i < legacyKeys.length; i += ATOMIC_BATCH_SIZE) {
+    const op = kv.atomic();
+    legacyKeys.slice(i, i + ATOMIC_BATCH_SIZE).forEach(key => op.delete(key));
+    await op.commit();
+  }
+  await kv.set(MIGRATION_KEY, { migratedAt: new Date().toISOString(), pools: legacyKeys.length });
+
+  if (legacyKeys.length > 0) {
+    console.log(`✓ Migrated APY history for ${legacyKeys.length} pools (${entries.length} snapshots)`);
+  }
+}
+
+/**
+ * Run the legacy migration at most once per process
+ */
+function ensureMigrated(): Promise<void> {
+  if (!migration) {
+    migration = migrateLegacyHistory().catch((error) => {
+      migration = null;
+      throw error;
+    });
+  }
+  return migration;
+}
+
+/**
+ * Save snapshots (poolId -> snapshot) in atomic batches
+ * A snapshot for a date that already exists replaces it
+ */
+export async function savePoolSnapshots(snapshots: Map<string, PoolSnapshot>): Promise<void> {
+  await ensureMigrated();
+  const kv = await getKv();
+  const entries = [...snapshots].map(([poolId, snapshot]) => ({
+    key: [...KV_PREFIX, poolId, snapshot.date],
+    value: snapshot,
+  }));
+  await commitInBatches(kv, entries);
+}
+
+/**
+ * Check whether a stored pool ID is a pre-ID label-based key
+ * Stable IDs always have the form "source:chain:upstreamId"
+ */
+function isLegacyPoolId(poolId: string): boolean {
+  return !poolId.includes(":");
+}
+
+/**
+ * Move snapshots still stored under label-based pool IDs to stable IDs
+ * The legacy -> stable mapping comes from the stored history itself: every pool
+ * stored under a stable ID names its legacy ID through its label (legacyIdOf).
+ * `known` adds pools not stored yet (e.g. today's run on the first day).
+ * Each pool moves in one atomic operation; dates already stored under the new ID win.
+ * Legacy pools that can't be mapped yet stay put and are retried on the next run;
+ * the marker is only written once no legacy pool is left and every move committed.
+ * Returns the number of pools moved.
+ */
+export async function rekeyPoolSnapshots(
+  legacyIdOf: (label: PoolLabel) => string,
+  known: Map<string, string> = new Map(),
+): Promise<number> {
+  const kv = await getKv();
+  if ((await kv.get(REKEY_MIGRATION_KEY)).value) {
+    return 0;
+  }
+
+  const histories = await loadAllPoolSnapshots();
+  const mapping = new Map(known);
+  for (const [poolId, snapshots] of histories) {
+    const label = snapshots[0]?.label;
+    if (isLegacyPoolId(poolId) || !label) continue;
+    const legacyId = legacyIdOf(label);
+    if (!mapping.has(legacyId)) {
+      mapping.set(legacyId, poolId);
+    }
+  }
+
+  let moved = 0;
+  let pending = 0;
+  for (const [oldId, snapshots] of histories) {
+    if (!isLegacyPoolId(oldId)) continue;
+    const newId = mapping.get(oldId);
+    if (!newId) {
+      pending++;
+      continue;
+    }
+
+    const existingDates = new Set((histories.get(newId) ?? []).map(s => s.date));
+    const op = kv.atomic();
+    for (const snapshot of snapshots) {
+      if (!existingDates.has(snapshot.date)) {
+        op.set([...KV_PREFIX, newId, snapshot.date], snapshot, { expireIn: SNAPSHOT_TTL_MS });
+      }
+      op.delete([...KV_PREFIX, oldId, snapshot.date]);
+    }
+    const result = await op.commit();
+    if (result.ok) {
+      moved++;
+    } else {
+      pending++;
+    }
+  }
+
+  if (pending === 0) {
+    await kv.set(REKEY_MIGRATION_KEY, { migratedAt: new Date().toISOString(), pools: moved });
+  } else {
+    console.log(`${pending} pools still have history under legacy IDs (retried next run)`);
+  }
+  return moved;
+}
+
+/**
+ * Load one pool's snapshots within the history window, newest first
+ */
+export async function loadPoolSnapshots(poolId: string): Promise<PoolSnapshot[]> {
+  await ensureMigrated();
+  const kv = await getKv();
+  const cutoff = getHistoryCutoff();
+  const snapshots: PoolSnapshot[] = [];
+
+  for await (const entry of kv.list<PoolSnapshot>({ prefix: [...KV_PREFIX, poolId] }, { reverse: true })) {
+    if (entry.value.date < cutoff) break;
+    snapshots.push(entry.value);
+  }
+
+  return snapshots;
+}
+
+/**
+ * Load every pool's snapshots within the history window
+ * Returns a Map of poolId -> snapshots (newest first)
+ */
+export async function loadAllPoolSnapshots(): Promise<Map<string, PoolSnapshot[]>> {
+  await ensureMigrated();
+  const kv = await getKv();
+  const cutoff = getHistoryCutoff();
+  const histories = new Map<string, PoolSnapshot[]>();
+
+  // Keys sort by poolId, then date ascending
+  for await (const entry of kv.list<PoolSnapshot>({ prefix: KV_PREFIX }, { batchSize: LIST_BATCH_SIZE })) {
+    if (entry.value.date < cutoff) continue;
+    const poolId = entry.key[KV_PREFIX.length] as string;
+    const snapshots = histories.get(poolId) ?? [];
+    snapshots.push(entry.value);
+    histories.set(poolId, snapshots);
+  }
+
+  for (const snapshots of histories.values()) {
+    snapshots.reverse();
+  }
+
+  return histories;
+}
@@ -0,0 +1,39 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { getDateDaysAgo } from "./clock.ts";
+import { setKv } from "./kv.ts";
+import { loadPoolSnapshots, type PoolLabel, type PoolSnapshot, rekeyPoolSnapshots, savePoolSnapshots } from "./snapshot_store.ts";
+
+const legacyIdOf = (label: PoolLabel) => `${label.source}-${label.asset}-${label.poolMeta ?? "default"}`.toLowerCase();
+
+function createSnapshot(daysAgo: number, label?: PoolLabel): PoolSnapshot {
+  return { date: getDateDaysAgo(daysAgo), apy: 5, tvl: 1_000_000, timestamp: 0, label };
+}
+
+Deno.test("legacy history is re-keyed through stored labels and retried until every pool moved", async () => {
+  const kv = await Deno.openKv(":memory:");
+  setKv(kv);
+  try {
+    const evaa = { source: "EVAA", asset: "USDT", poolMeta: "Main" };
+    await savePoolSnapshots(new Map([["evaa-usdt-main", createSnapshot(2)]]));
+    await savePoolSnapshots(new Map([["storm-usdt-default", createSnapshot(2)]]));
+    // Stored under its stable ID by a later run that Storm was missing from
+    await savePoolSnapshots(new Map([["defillama:ton:evaa-usdt", createSnapshot(1, evaa)]]));
+
+    assertEquals(await rekeyPoolSnapshots(legacyIdOf), 1);
+    assertEquals((await loadPoolSnapshots("defillama:ton:evaa-usdt")).map(s => s.date), [getDateDaysAgo(1), getDateDaysAgo(2)]);
+    assertEquals(await loadPoolSnapshots("evaa-usdt-main"), []);
+    // Storm's history is still waiting for its pool
+    assertEquals((await kv.get(["migrations", "pool_ids_v1"])).value, null);
+
+    const storm = new Map([["storm-usdt-default", "swapcoffee:ton:storm-usdt"]]);
+    assertEquals(await rekeyPoolSnapshots(legacyIdOf, storm), 1);
+    assertEquals((await loadPoolSnapshots("swapcoffee:ton:storm-usdt")).length, 1);
+    assertEquals((await kv.get(["migrations", "pool_ids_v1"])).value !== null, true);
+
+    // Done: later calls only check the marker
+    await savePoolSnapshots(new Map([["ston-ton-default", createSnapshot(1)]]));
+    assertEquals(await rekeyPoolSnapshots(legacyIdOf, new Map([["ston-ton-default", "x:ton:y"]])), 0);
+  } finally {
+    kv.close();
+  }
+});
@@ -0,0 +1,60 @@
+/**
+ * Yield Source Registry
+ * Every upstream integration registers its adapter here.
+ * Adding a protocol means writing one adapter and listing it below.
+ */
+
+import type { YieldSource } from "../types/yields.ts";
+import { defiLlamaSource } from "./defillama.ts";
+import { merklSource } from "./merkl.ts";
+import { morphoSource } from "./morpho.ts";
+import { eulerSource } from "./euler.ts";
+import { yieldFiSource } from "./yieldfi.ts";
+import { ethenaSource } from "./ethena.ts";
+import { swapCoffeeSource } from "./swapcoffee.ts";
+import { midasSource } from "./midas.ts";
+
+/**
+ * All registered yield sources
+ * Order matters: it's the order attributions appear in the message footer
+ */
+export const YIELD_SOURCES: YieldSource[] = [
+  defiLlamaSource,
+  merklSource,
+  morphoSource,
+  eulerSource,
+  yieldFiSource,
+  ethenaSource,
+  swapCoffeeSource,
+  midasSource,
+];
+
+/**
+ * Get sources the aggregator should run
+ */
+export function getEnabledSources(): YieldSource[] {
+  return YIELD_SOURCES.filter(source => source.enabled);
+}
+
+/**
+ * Find a registered source by ID (enabled or not)
+ */
+export function findSource(id: string): YieldSource | undefined {
+  return YIELD_SOURCES.find(source => source.id === id);
+}
+
+/**
+ * Get unique data provider attributions for enabled sources
+ * e.g., YieldFi and Ethena are both credited as "DefiLlama"
+ */
+export function getSourceAttributions(): Array<{ name: string; url: string }> {
+  const attributions = new Map<string, string>();
+
+  for (const source of getEnabledSources()) {
+    if (source.attribution && !attributions.has(source.attribution.name)) {
+      attributions.set(source.attribution.name, source.attribution.url);
+    }
+  }
+
+  return [...attributions].map(([name, url]) => ({ name, url }));
+}
@@ -10,9 +10,10 @@
  * Rate limit: 1 RPS (no API key required)
  */
 
-import type { YieldOpportunity } from "../types/yields.ts";
+import type { YieldOpportunity, YieldSource } from "../types/yields.ts";
 import {
   classifyAsset,
+  createYieldId,
   getProtocolUrl,
   isCorrelatedPair,
   pairBelongsToCategory,
@@ -20,6 +21,7 @@ import {
   isExcludedAsset,
   isTonUsdtPool,
 } from "./protocols.ts";
+import { fetchJson } from "./http.ts";
 
 const SWAPCOFFEE_API = "https://backend.swap.coffee/v1/yield/pools";
 
@@ -84,33 +86,22 @@ interface SwapCoffeeResponse {
  * Fetch yield pools from Swap Coffee API
  */
 async function fetchSwapCoffeePools(): Promise<SwapCoffeePool[]> {
-  try {
-    const response = await fetch(SWAPCOFFEE_API, {
-      method: "GET",
+  const data = await fetchJson<SwapCoffeeResponse[]>(SWAPCOFFEE_API, {
+    name: "Swap Coffee",
+    timeoutMs: 15000,
+    init: {
       headers: {
         "Accept": "application/json",
       },
-      signal: AbortSignal.timeout(15000),
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `Swap Coffee API error: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    const data: SwapCoffeeResponse[] = await response.json();
-    
-    if (!data[0]?.pools) {
-      console.warn("No pools found in Swap Coffee response");
-      return [];
-    }
-
-    return data[0].pools;
-  } catch (error) {
-    console.error("Failed to fetch from Swap Coffee API:", error);
+    },
+  });
+  
+  if (!data[0]?.pools) {
+    console.warn("No pools found in Swap Coffee response");
     return [];
   }
+
+  return data[0].pools;
 }
 
 /**
@@ -194,7 +185,7 @@ function getPoolMeta(pool: SwapCoffeePool): string | null {
 /**
  * Transform Swap Coffee pool to YieldOpportunity
  */
-function transformSwapCoffeePool(pool: SwapCoffeePool): YieldOpportunity | null {
+function transformSwapCoffeePool(pool: SwapCoffeePool, fetchedAt: string): YieldOpportunity | null {
   // Skip untrusted pools
   if (!pool.is_trusted) {
     return null;
@@ -214,7 +205,8 @@ function transformSwapCoffeePool(pool: SwapCoffeePool): YieldOpportunity | null
   }
 
   const asset = getAssetSymbol(pool);
-  const assetType = classifyAsset(asset);
+  const tokenAddress = pool.tokens.length === 1 ? pool.tokens[0].address.address : undefined;
+  const assetType = classifyAsset(asset, tokenAddress);
   
   // Skip excluded assets (memecoins)
   if (isExcludedAsset(asset)) {
@@ -239,6 +231,12 @@ function transformSwapCoffeePool(pool: SwapCoffeePool): YieldOpportunity | null
   const isTonUsdt = isTonUsdtPool(asset);
 
   return {
+    id: createYieldId("Swap Coffee", "TON", pool.address),
+    chain: "TON",
+    upstreamId: pool.address,
+    dataSource: "Swap Coffee",
+    fetchedAt,
+    tvlEstimated: false,
     assetType,
     source: protocolName,
     sourceUrl: getProtocolUrl(pool.protocol),
@@ -249,6 +247,7 @@ function transformSwapCoffeePool(pool: SwapCoffeePool): YieldOpportunity | null
     apyTotal,
     tvlUsd: pool.pool_statistics.tvl_usd,
     isTonUsdtPool: isTonUsdt,
+    address: pool.address,
   };
 }
 
@@ -280,19 +279,17 @@ export async function fetchSwapCoffeeYields(): Promise<YieldOpportunity[]> {
   console.log("Fetching yields from Swap Coffee API (100+ pools from 17 protocols)...");
 
   const allPools = await fetchSwapCoffeePools();
+  const fetchedAt = new Date().toISOString();
   console.log(`Fetched ${allPools.length} pools from Swap Coffee`);
 
-  // Filter out EVAA pools - we use DefiLlama for complete EVAA coverage (includes USDE)
   // Filter out Moon - no longer live on TON
-  const pools = allPools.filter(pool => {
-    const protocol = pool.protocol.toLowerCase();
-    return protocol !== "evaa" && protocol !== "moon";
-  });
-  console.log(`${pools.length} pools after excluding EVAA and Moon`);
+  // (EVAA overlaps with DefiLlama are resolved by the deduplication stage)
+  const pools = allPools.filter(pool => pool.protocol.toLowerCase() !== "moon");
+  console.log(`${pools.length} pools after excluding Moon`);
 
   // Transform to yield opportunities
   const yields = pools
-    .map(transformSwapCoffeePool)
+    .map(pool => transformSwapCoffeePool(pool, fetchedAt))
     .filter((y): y is YieldOpportunity => y !== null);
 
   console.log(`${yields.length} Swap Coffee yields after transformation`);
@@ -305,3 +302,15 @@ export async function fetchSwapCoffeeYields(): Promise<YieldOpportunity[]> {
 
   return correlatedYields;
 }
+
+/**
+ * Swap Coffee yield source adapter
+ */
+export const swapCoffeeSource: YieldSource = {
+  id: "swapcoffee",
+  name: "Swap Coffee",
+  fetch: fetchSwapCoffeeYields,
+  attribution: { name: "Swap.coffee", url: "https://swap.coffee/" },
+  enabled: true,
+  timeoutMs: 30000,
+};
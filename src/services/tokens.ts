@@ -0,0 +1,211 @@
+/**
+ * Token Registry
+ * Every token we know how to categorize, keyed by contract address and symbol aliases
+ *
+ * Sources look tokens up here instead of guessing from symbol substrings,
+ * so "USDX" or a vault name containing "USD" is never mistaken for a stablecoin.
+ * Tokens missing from the registry classify as "UNKNOWN" and are reported to the
+ * admin after each run - add them below to get them posted.
+ */
+
+import type { AssetType } from "../types/yields.ts";
+
+/**
+ * Asset a token's price tracks
+ */
+export type TokenPeg = "USD" | "TON" | "BTC" | "ETH" | "XAU";
+
+/**
+ * A registry entry
+ */
+export interface TokenInfo {
+  /** Canonical display symbol */
+  symbol: string;
+  /** Other symbols upstreams use for the same token */
+  aliases?: string[];
+  /** TON jetton master and TAC ERC-20 addresses */
+  addresses?: string[];
+  /** Asset type (matched by the category config's assetTypes rules) */
+  category: AssetType;
+  /** What the price tracks (null for tokens that float, e.g. RLP or vault shares) */
+  peg: TokenPeg | null;
+  /** Decimals, where they're the same on every chain we read */
+  decimals?: number;
+  /** Canonical symbol of the token this one wraps or stakes (e.g., tsTON -> TON) */
+  underlying?: string;
+  /** CoinGecko ID used for USD pricing */
+  coingeckoId?: string;
+}
+
+/**
+ * Known tokens
+ * Symbols and aliases are matched after normalizeSymbol(), so case, "₮" and
+ * punctuation variants (USD₮, usdt, USD₮0, M-BTC) don't need separate aliases.
+ */
+export const TOKENS: TokenInfo[] = [
+  // TON and liquid staking tokens
+  { symbol: "TON", aliases: ["pTON", "Toncoin"], category: "TON", peg: "TON", decimals: 9, coingeckoId: "the-open-network" },
+  { symbol: "wTON", category: "TON", peg: "TON", decimals: 9, underlying: "TON", coingeckoId: "the-open-network" },
+  {
+    symbol: "tsTON",
+    addresses: ["EQC98_qAmNEptUtPc7W6xdHh_ZHrBUFpw5Ft_IzNU20QAJav"],
+    category: "TON",
+    peg: "TON",
+    decimals: 9,
+    underlying: "TON",
+    coingeckoId: "tonstakers-ton",
+  },
+  { symbol: "stTON", category: "TON", peg: "TON", decimals: 9, underlying: "TON" },
+  { symbol: "hTON", category: "TON", peg: "TON", decimals: 9, underlying: "TON" },
+  { symbol: "bmTON", category: "TON", peg: "TON", decimals: 9, underlying: "TON" },
+  { symbol: "KTON", category: "TON", peg: "TON", decimals: 9, underlying: "TON" },
+
+  // Plain USD stablecoins
+  {
+    symbol: "USDT",
+    aliases: ["USDT.e"],
+    addresses: ["EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs"],
+    category: "STABLE",
+    peg: "USD",
+    decimals: 6,
+    coingeckoId: "tether",
+  },
+  { symbol: "USDT0", category: "STABLE", peg: "USD", decimals: 6 },
+  { symbol: "jUSDT", category: "STABLE", peg: "USD", decimals: 6 },
+  { symbol: "USDC", category: "STABLE", peg: "USD", decimals: 6, coingeckoId: "usd-coin" },
+  { symbol: "jUSDC", category: "STABLE", peg: "USD", decimals: 6 },
+  { symbol: "DAI", category: "STABLE", peg: "USD" },
+  { symbol: "USDS", category: "STABLE", peg: "USD" },
+  { symbol: "TUSD", category: "STABLE", peg: "USD" },
+  { symbol: "BUSD", category: "STABLE", peg: "USD" },
+  { symbol: "FRAX", category: "STABLE", peg: "USD" },
+  { symbol: "LUSD", category: "STABLE", peg: "USD" },
+  { symbol: "USDe", category: "STABLE", peg: "USD", coingeckoId: "ethena-usde" },
+  { symbol: "USR", category: "STABLE", peg: "USD" },
+  { symbol: "USD0", category: "STABLE", peg: "USD" },
+  { symbol: "USN", category: "STABLE", peg: "USD" },
+
+  // Yield-bearing stables (track USD plus accrued yield, so never priced at a flat $1)
+  { symbol: "tsUSDT", category: "STABLE", peg: "USD", underlying: "USDT" },
+  { symbol: "sUSDe", category: "STABLE", peg: "USD", underlying: "USDe" },
+  { symbol: "tsUSDe", category: "STABLE", peg: "USD", underlying: "USDe" },
+  { symbol: "stUSR", category: "STABLE", peg: "USD", underlying: "USR" },
+  { symbol: "wstUSR", category: "STABLE", peg: "USD", underlying: "USR" },
+  { symbol: "USD0++", category: "STABLE", peg: "USD", underlying: "USD0" },
+  { symbol: "sUSN", category: "STABLE", peg: "USD", underlying: "USN" },
+  { symbol: "yUSD", category: "STABLE", peg: "USD" },
+  { symbol: "vyUSD", category: "STABLE", peg: "USD", underlying: "yUSD" },
+
+  // USD-denominated tokens that aren't pegged
+  { symbol: "RLP", category: "STABLE", peg: null },
+  {
+    symbol: "mRe7YIELD",
+    addresses: ["EQAPMnib1eghlNQ9TnLZKCMUsY1QJ4rQ7pyB7PvGWxMIeQlM"],
+    category: "STABLE",
+    peg: null,
+    coingeckoId: "midas-mre7yield",
+  },
+
+  // Bitcoin
+  { symbol: "BTC", category: "BTC", peg: "BTC", decimals: 8, coingeckoId: "bitcoin" },
+  { symbol: "WBTC", category: "BTC", peg: "BTC", decimals: 8, coingeckoId: "wrapped-bitcoin" },
+  { symbol: "cbBTC", category: "BTC", peg: "BTC", decimals: 8, coingeckoId: "coinbase-wrapped-btc" },
+  { symbol: "LBTC", category: "BTC", peg: "BTC", decimals: 8, coingeckoId: "lombard-staked-btc" },
+  { symbol: "tBTC", category: "BTC", peg: "BTC" },
+  { symbol: "tgBTC", category: "BTC", peg: "BTC" },
+  { symbol: "M-BTC", category: "BTC", peg: "BTC" },
+  { symbol: "uniBTC", category: "BTC", peg: "BTC" },
+
+  // Ethereum and liquid (re)staking tokens
+  { symbol: "ETH", category: "ETH", peg: "ETH", decimals: 18, coingeckoId: "ethereum" },
+  { symbol: "WETH", category: "ETH", peg: "ETH", decimals: 18, underlying: "ETH", coingeckoId: "ethereum" },
+  { symbol: "stETH", category: "ETH", peg: "ETH", decimals: 18, underlying: "ETH" },
+  { symbol: "wstETH", category: "ETH", peg: "ETH", decimals: 18, underlying: "stETH" },
+  { symbol: "rETH", category: "ETH", peg: "ETH", underlying: "ETH" },
+  { symbol: "rsETH", category: "ETH", peg: "ETH", underlying: "ETH" },
+  { symbol: "wrsETH", category: "ETH", peg: "ETH", underlying: "rsETH" },
+  { symbol: "pufETH", category: "ETH", peg: "ETH", underlying: "ETH" },
+  { symbol: "eETH", category: "ETH", peg: "ETH", underlying: "ETH" },
+  { symbol: "weETH", category: "ETH", peg: "ETH", underlying: "eETH" },
+
+  // Gold
+  { symbol: "XAUt", category: "GOLD", peg: "XAU", decimals: 6, coingeckoId: "tether-gold" },
+  { symbol: "XAUt0", category: "GOLD", peg: "XAU", underlying: "XAUt" },
+];
+
+/**
+ * Categories tried in order when a multi-token name mixes categories
+ * (e.g., "TON-USDT" is listed as STABLE, matching the old substring order)
+ */
+const CATEGORY_PRIORITY: AssetType[] = ["STABLE", "BTC", "ETH", "GOLD", "TON"];
+
+/**
+ * Normalize a symbol for lookup
+ * e.g., "USD₮" -> "USDT", "usdt.e" -> "USDTE", "M-BTC" -> "MBTC" ("+" is kept so USD0++ stays distinct)
+ */
+export function normalizeSymbol(symbol: string): string {
+  return symbol.toUpperCase().replace(/₮/g, "T").replace(/[^A-Z0-9+]/g, "");
+}
+
+/**
+ * Normalize an address for lookup
+ * EVM addresses are case-insensitive; TON user-friendly addresses are not
+ */
+function normalizeAddress(address: string): string {
+  const trimmed = address.trim();
+  return trimmed.startsWith("0x") ? trimmed.toLowerCase() : trimmed;
+}
+
+const bySymbol = new Map<string, TokenInfo>();
+const byAddress = new Map<string, TokenInfo>();
+
+for (const token of TOKENS) {
+  for (const symbol of [token.symbol, ...(token.aliases ?? [])]) {
+    bySymbol.set(normalizeSymbol(symbol), token);
+  }
+  for (const address of token.addresses ?? []) {
+    byAddress.set(normalizeAddress(address), token);
+  }
+}
+
+/**
+ * Look up a token by contract address, falling back to its symbol
+ * Returns null when the token isn't in the registry
+ */
+export function findToken(symbol: string, address?: string): TokenInfo | null {
+  if (address) {
+    const token = byAddress.get(normalizeAddress(address));
+    if (token) {
+      return token;
+    }
+  }
+  return bySymbol.get(normalizeSymbol(symbol)) ?? null;
+}
+
+/**
+ * Categorize a token symbol or a multi-token name
+ * Single tokens resolve by address, then symbol. Pair and vault names
+ * ("TON-USDT", "Re7 WETH V2") are split into words; unrecognized words
+ * are ignored and the highest-priority category among the rest wins.
+ * Returns "UNKNOWN" when nothing in the name is a registered token.
+ */
+export function resolveCategory(symbol: string, address?: string): AssetType {
+  const token = findToken(symbol, address);
+  if (token) {
+    return token.category;
+  }
+
+  const categories = new Set(
+    symbol.split(/[\s\-\/]+/)
+      .map(part => bySymbol.get(normalizeSymbol(part))?.category)
+      .filter(category => category !== undefined),
+  );
+  return CATEGORY_PRIORITY.find(category => categories.has(category)) ?? "UNKNOWN";
+}
+
+/**
+ * Check if a token is a plain USD stablecoin (pegged, not yield-bearing)
+ */
+export function isPlainStablecoin(token: TokenInfo): boolean {
+  return token.peg === "USD" && !token.underlying;
+}
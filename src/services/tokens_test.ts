@@ -0,0 +1,34 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { resolveCategory } from "./tokens.ts";
+
+Deno.test("resolveCategory looks single tokens up by symbol, ignoring case and punctuation", () => {
+  assertEquals(resolveCategory("USD₮"), "STABLE");
+  assertEquals(resolveCategory("usdt.e"), "STABLE");
+  assertEquals(resolveCategory("tsTON"), "TON");
+  assertEquals(resolveCategory("mbtc"), "BTC");
+  assertEquals(resolveCategory("wstETH"), "ETH");
+  assertEquals(resolveCategory("XAUt0"), "GOLD");
+  // "+" is significant: USD0++ is its own token
+  assertEquals(resolveCategory("USD0++"), "STABLE");
+});
+
+Deno.test("resolveCategory prefers the contract address over the symbol", () => {
+  // An upstream that labels the tsTON jetton oddly still classifies by its master
+  assertEquals(resolveCategory("Staked TON v2", "EQC98_qAmNEptUtPc7W6xdHh_ZHrBUFpw5Ft_IzNU20QAJav"), "TON");
+  // An unknown address falls back to the symbol
+  assertEquals(resolveCategory("USDC", "0x0000000000000000000000000000000000000001"), "STABLE");
+});
+
+Deno.test("resolveCategory picks the highest-priority category in pair and vault names", () => {
+  assertEquals(resolveCategory("TON-USDT"), "STABLE");
+  assertEquals(resolveCategory("tsTON/WBTC"), "BTC");
+  assertEquals(resolveCategory("Re7 WETH V2"), "ETH");
+  assertEquals(resolveCategory("TON-stTON"), "TON");
+});
+
+Deno.test("resolveCategory never guesses from substrings", () => {
+  assertEquals(resolveCategory("USDX"), "UNKNOWN");
+  assertEquals(resolveCategory("USD Vault"), "UNKNOWN");
+  assertEquals(resolveCategory("FOO-BAR"), "UNKNOWN");
+  assertEquals(resolveCategory(""), "UNKNOWN");
+});
@@ -0,0 +1,61 @@
+/**
+ * Upstream Transport
+ * Every upstream request - fetchJson and the TAC JSON-RPC provider - is sent
+ * through one swappable function, so tests and offline runs can serve
+ * recorded responses instead of the network (see services/fixtures.ts).
+ */
+
+import { ethers } from "ethers";
+
+/**
+ * Sends a request and resolves with the response (same contract as fetch)
+ */
+export type Transport = (request: Request) => Promise<Response>;
+
+/**
+ * Transport that talks to the network
+ */
+export const liveTransport: Transport = (request) => fetch(request);
+
+let transport: Transport = liveTransport;
+
+/**
+ * Replace the transport used for all upstream requests
+ */
+export function setTransport(next: Transport): void {
+  transport = next;
+}
+
+/**
+ * Send a request through the current transport
+ */
+export function sendRequest(request: Request): Promise<Response> {
+  return transport(request);
+}
+
+/**
+ * Create an ethers JSON-RPC provider whose HTTP requests go through the transport
+ */
+export function createRpcProvider(url: string): ethers.JsonRpcProvider {
+  const connection = new ethers.FetchRequest(url);
+  connection.getUrlFunc = async (req, signal) => {
+    const controller = new AbortController();
+    signal?.addListener(() => controller.abort());
+
+    const response = await sendRequest(
+      new Request(req.url, {
+        method: req.method,
+        headers: req.headers,
+        body: req.body ? new Uint8Array(req.body) : undefined,
+        signal: controller.signal,
+      }),
+    );
+    return {
+      statusCode: response.status,
+      statusMessage: response.statusText,
+      headers: Object.fromEntries(response.headers),
+      body: new Uint8Array(await response.arrayBuffer()),
+    };
+  };
+  return new ethers.JsonRpcProvider(connection);
+}
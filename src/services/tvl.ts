@@ -7,6 +7,8 @@
  * - Excludes: CEXs, Liquid Staking Tokens (LST/LSD)
  */
 
+import { fetchJson } from "./http.ts";
+
 interface DefiLlamaProtocol {
   name: string;
   chains: string[];
@@ -54,13 +56,10 @@ function isExcludedProtocol(protocol: DefiLlamaProtocol): boolean {
  */
 export async function fetchTonTVL(): Promise<number> {
   try {
-    const response = await fetch(DEFILLAMA_PROTOCOLS_API, { signal: AbortSignal.timeout(15000) });
-    
-    if (!response.ok) {
-      throw new Error(`DefiLlama API error: ${response.status} ${response.statusText}`);
-    }
-    
-    const protocols: DefiLlamaProtocol[] = await response.json();
+    const protocols = await fetchJson<DefiLlamaProtocol[]>(DEFILLAMA_PROTOCOLS_API, {
+      name: "DefiLlama",
+      timeoutMs: 15000,
+    });
     
     // Filter for TON protocols
     const tonProtocols = protocols.filter((p) =>
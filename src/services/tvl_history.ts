@@ -4,7 +4,10 @@
  * Uses Deno KV for persistent storage across deployments
  */
 
-interface TvlSnapshot {
+import { getKv } from "./kv.ts";
+import { getDateDaysAgo, now } from "./clock.ts";
+
+export interface TvlSnapshot {
   date: string; // ISO date string (YYYY-MM-DD)
   tvl: number;
   timestamp: number;
@@ -17,29 +20,6 @@ interface TvlHistory {
 const KV_KEY = ["tvl_history"];
 const MAX_HISTORY_DAYS = 30; // Keep last 30 days
 
-/**
- * Open Deno KV database
- * In production (Deno Deploy): uses cloud KV (no path needed)
- * In development: uses local file in ./data/kv.db
- */
-async function getKv(): Promise<Deno.Kv> {
-  // Check if we're in Deno Deploy production environment
-  const isProduction = Deno.env.get("DENO_DEPLOYMENT_ID") !== undefined;
-  
-  if (isProduction) {
-    // Production: Use cloud KV (default)
-    return await Deno.openKv();
-  } else {
-    // Development: Use local file-based KV
-    try {
-      await Deno.mkdir("./data", { recursive: true });
-    } catch {
-      // Directory already exists
-    }
-    return await Deno.openKv("./data/kv.db");
-  }
-}
-
 /**
  * Load TVL history from Deno KV
  */
@@ -47,7 +27,6 @@ async function loadHistory(): Promise<TvlHistory> {
   try {
     const kv = await getKv();
     const result = await kv.get<TvlHistory>(KV_KEY);
-    kv.close();
     
     if (result.value) {
       return result.value;
@@ -67,37 +46,19 @@ async function saveHistory(history: TvlHistory): Promise<void> {
   try {
     const kv = await getKv();
     await kv.set(KV_KEY, history);
-    kv.close();
   } catch (error) {
     console.error("Failed to save TVL history to KV:", error);
     throw error;
   }
 }
 
-/**
- * Get today's date as ISO string (YYYY-MM-DD)
- */
-function getTodayDate(): string {
-  const now = new Date();
-  return now.toISOString().split("T")[0];
-}
-
-/**
- * Get yesterday's date as ISO string (YYYY-MM-DD)
- */
-function getYesterdayDate(): string {
-  const now = new Date();
-  now.setDate(now.getDate() - 1);
-  return now.toISOString().split("T")[0];
-}
-
 /**
  * Save today's TVL snapshot
  */
 export async function saveTvlSnapshot(tvl: number): Promise<void> {
   try {
     const history = await loadHistory();
-    const today = getTodayDate();
+    const today = getDateDaysAgo(0);
     
     // Check if we already have a snapshot for today
     const existingIndex = history.snapshots.findIndex(s => s.date === today);
@@ -105,7 +66,7 @@ export async function saveTvlSnapshot(tvl: number): Promise<void> {
     const snapshot: TvlSnapshot = {
       date: today,
       tvl,
-      timestamp: Date.now(),
+      timestamp: now().getTime(),
     };
     
     if (existingIndex >= 0) {
@@ -135,7 +96,7 @@ export async function saveTvlSnapshot(tvl: number): Promise<void> {
 export async function getYesterdayTvl(): Promise<number | null> {
   try {
     const history = await loadHistory();
-    const yesterday = getYesterdayDate();
+    const yesterday = getDateDaysAgo(1);
     
     const snapshot = history.snapshots.find(s => s.date === yesterday);
     return snapshot ? snapshot.tvl : null;
@@ -145,6 +106,32 @@ export async function getYesterdayTvl(): Promise<number | null> {
   }
 }
 
+/**
+ * Get the stored daily TVL snapshots, oldest first
+ */
+export async function getTvlHistory(): Promise<TvlSnapshot[]> {
+  const history = await loadHistory();
+  return [...history.snapshots].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Merge snapshots into the stored history (e.g. restored from an export)
+ * Imported snapshots replace stored ones for the same date; only the newest
+ * MAX_HISTORY_DAYS are kept.
+ */
+export async function importTvlSnapshots(snapshots: TvlSnapshot[]): Promise<void> {
+  const history = await loadHistory();
+  const byDate = new Map(history.snapshots.map(s => [s.date, s]));
+  for (const snapshot of snapshots) {
+    byDate.set(snapshot.date, snapshot);
+  }
+
+  history.snapshots = [...byDate.values()]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_HISTORY_DAYS);
+  await saveHistory(history);
+}
+
 /**
  * Calculate TVL change from yesterday
  * Returns { change: number, changePercent: number } or null if no history
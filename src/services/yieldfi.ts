@@ -1,24 +1,17 @@
 import {
   classifyAsset,
+  createYieldId,
   getProtocolUrl,
 } from "./protocols.ts";
-import type { YieldOpportunity, DefiLlamaPool } from "../types/yields.ts";
-
-// DefiLlama API URL
-const DEFILLAMA_API_URL = "https://yields.llama.fi/pools";
+import type { YieldOpportunity, YieldSource, DefiLlamaPool } from "../types/yields.ts";
+import { fetchDefiLlamaPools } from "./defillama.ts";
 
 // Fetch YieldFi pools from DefiLlama
 async function fetchYieldFiPools(): Promise<DefiLlamaPool[]> {
-  const response = await fetch(DEFILLAMA_API_URL, { signal: AbortSignal.timeout(20000) });
-  
-  if (!response.ok) {
-    throw new Error(`DefiLlama API error: ${response.status} ${response.statusText}`);
-  }
-  
-  const data = await response.json();
+  const pools = await fetchDefiLlamaPools();
   
   // Filter for YieldFi project pools
-  const yieldFiPools = data.data.filter((pool: DefiLlamaPool) => 
+  const yieldFiPools = pools.filter((pool) => 
     pool.project?.toLowerCase() === "yieldfi"
   );
   
@@ -67,10 +60,17 @@ function transformYieldFiToken(
   symbol: string,
   apy: number,
   tvl: number,
+  fetchedAt: string,
 ): YieldOpportunity {
   const assetType = classifyAsset(symbol); // Should be STABLE
 
   return {
+    id: createYieldId("DefiLlama", "TON", symbol),
+    chain: "TON",
+    upstreamId: symbol,
+    dataSource: "DefiLlama",
+    fetchedAt,
+    tvlEstimated: true, // Summed across chains
     assetType,
     source: "YieldFi",
     sourceUrl: getProtocolUrl("yieldfi"),
@@ -87,37 +87,43 @@ function transformYieldFiToken(
 export async function fetchYieldFiYields(): Promise<YieldOpportunity[]> {
   console.log("Fetching yields from YieldFi (DefiLlama, aggregated across all chains)...");
 
-  try {
-    // Fetch all YieldFi pools from DefiLlama
-    const pools = await fetchYieldFiPools();
-    
-    if (pools.length === 0) {
-      console.log("No YieldFi pools found on DefiLlama");
-      return [];
+  // Fetch all YieldFi pools from DefiLlama
+  const pools = await fetchYieldFiPools();
+  const fetchedAt = new Date().toISOString();
+  
+  if (pools.length === 0) {
+    console.log("No YieldFi pools found on DefiLlama");
+    return [];
+  }
+  
+  // Aggregate by token symbol (yUSD, vyUSD) across all chains
+  const aggregated = aggregateYieldFiByToken(pools);
+  
+  // Transform to YieldOpportunity format
+  const yields: YieldOpportunity[] = [];
+  
+  for (const [symbol, data] of aggregated.entries()) {
+    if (data.apy < 0.1) {
+      console.log(`Skipping ${symbol} - APY too low (${data.apy}%)`);
+      continue;
     }
     
-    // Aggregate by token symbol (yUSD, vyUSD) across all chains
-    const aggregated = aggregateYieldFiByToken(pools);
+    const yieldOpp = transformYieldFiToken(symbol, data.apy, data.tvl, fetchedAt);
+    yields.push(yieldOpp);
     
-    // Transform to YieldOpportunity format
-    const yields: YieldOpportunity[] = [];
-    
-    for (const [symbol, data] of aggregated.entries()) {
-      if (data.apy < 0.1) {
-        console.log(`Skipping ${symbol} - APY too low (${data.apy}%)`);
-        continue;
-      }
-      
-      const yieldOpp = transformYieldFiToken(symbol, data.apy, data.tvl);
-      yields.push(yieldOpp);
-      
-      console.log(`✓ ${symbol}: ${data.apy.toFixed(2)}% APY, $${(data.tvl / 1000000).toFixed(2)}M TVL (aggregated across all chains)`);
-    }
-    
-    console.log(`${yields.length} YieldFi yields fetched`);
-    return yields;
-  } catch (error) {
-    console.error("Failed to fetch YieldFi yields:", error);
-    return [];
+    console.log(`✓ ${symbol}: ${data.apy.toFixed(2)}% APY, $${(data.tvl / 1000000).toFixed(2)}M TVL (aggregated across all chains)`);
   }
+  
+  console.log(`${yields.length} YieldFi yields fetched`);
+  return yields;
 }
+
+// YieldFi yield source adapter (data comes from DefiLlama)
+export const yieldFiSource: YieldSource = {
+  id: "yieldfi",
+  name: "YieldFi",
+  fetch: fetchYieldFiYields,
+  attribution: { name: "DefiLlama", url: "https://defillama.com/" },
+  enabled: true,
+  timeoutMs: 30000,
+};
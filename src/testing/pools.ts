@@ -0,0 +1,34 @@
+/**
+ * Test Pools
+ * Shared factory for the yield opportunities the tests build by hand.
+ */
+
+import type { YieldOpportunity } from "../types/yields.ts";
+
+/**
+ * Build a pool: a $1M EVAA USDT pool at 5% unless overridden
+ * The ID is derived from source, asset and pool meta, so equal inputs give equal IDs.
+ */
+export function createPool(overrides: Partial<YieldOpportunity> = {}): YieldOpportunity {
+  const source = overrides.source ?? "EVAA";
+  const asset = overrides.asset ?? "USDT";
+  const upstreamId = `${source}-${asset}-${overrides.poolMeta ?? ""}`.toLowerCase();
+  return {
+    id: `test:ton:${upstreamId}`,
+    chain: "TON",
+    upstreamId,
+    dataSource: "DefiLlama",
+    fetchedAt: "2026-10-19T09:00:00.000Z",
+    tvlEstimated: false,
+    assetType: "STABLE",
+    source,
+    sourceUrl: "https://t.me/EvaaAppBot",
+    asset,
+    poolMeta: null,
+    apyBase: 5,
+    apyReward: null,
+    apyTotal: 5,
+    tvlUsd: 1_000_000,
+    ...overrides,
+  };
+}
@@ -1,13 +1,37 @@
 /**
- * Asset type categories for TON yields
+ * Asset type of a pool's token, from the token registry (e.g., "TON", "STABLE", "BTC", "ETH", "GOLD")
+ * "UNKNOWN" marks tokens missing from the registry (reported to the admin, never posted).
+ * Which section a pool is posted in is decided by the category config (see CategoryDefinition).
  */
-export type AssetType = "TON" | "STABLE" | "BTC" | "ETH";
+export type AssetType = string;
+
+/**
+ * Chain a yield opportunity lives on
+ */
+export type Chain = "TON" | "TAC";
+
+/**
+ * Upstream system a yield opportunity was read from
+ */
+export type DataSource = "DefiLlama" | "Swap Coffee" | "Merkl" | "Goldsky" | "RPC" | "TonAPI";
 
 /**
  * Represents a single yield opportunity from any protocol
  */
 export interface YieldOpportunity {
-  /** Category of asset (TON, STABLE, BTC) */
+  /** Stable identifier: "<dataSource>:<chain>:<upstreamId>" (see createYieldId) */
+  id: string;
+  /** Chain the pool/vault lives on */
+  chain: Chain;
+  /** Pool ID in the upstream data source (pool UUID, contract address, token symbol, ...) */
+  upstreamId: string;
+  /** Upstream system the data was read from */
+  dataSource: DataSource;
+  /** ISO timestamp when the data was fetched */
+  fetchedAt: string;
+  /** True when tvlUsd is computed by us (token amount × price, or summed across chains) */
+  tvlEstimated: boolean;
+  /** Asset type from the token registry (TON, STABLE, BTC, ...) */
   assetType: AssetType;
   /** Protocol/project name */
   source: string;
@@ -33,6 +57,107 @@ export interface YieldOpportunity {
   secondarySourceName?: string;
   /** Custom APY label shown in place of the 7-day average (e.g. "5y avg") */
   apyNote?: string;
+  /** Pool/vault contract address, when the upstream exposes one (used for cross-source dedup) */
+  address?: string;
+}
+
+/**
+ * A pluggable yield data source (one adapter per upstream integration)
+ */
+export interface YieldSource {
+  /** Stable identifier (e.g., "merkl", "swapcoffee") */
+  id: string;
+  /** Human-readable name used in logs */
+  name: string;
+  /** Fetch all yield opportunities this source provides */
+  fetch: () => Promise<YieldOpportunity[]>;
+  /** Data provider credited in the channel message footer */
+  attribution?: {
+    name: string;
+    url: string;
+  };
+  /** Disabled sources are skipped by the aggregator */
+  enabled: boolean;
+  /** Maximum time the aggregator waits for this source */
+  timeoutMs: number;
+}
+
+/**
+ * Outcome of a single source fetch during an aggregation run
+ */
+export type SourceStatus = "ok" | "empty" | "error" | "timeout";
+
+/**
+ * Health of a single source during an aggregation run
+ */
+export interface SourceReport {
+  /** Source identifier (matches YieldSource.id) */
+  id: string;
+  /** Source display name */
+  name: string;
+  status: SourceStatus;
+  /** Time spent fetching, in milliseconds */
+  latencyMs: number;
+  /** Number of pools the source returned */
+  poolCount: number;
+  /** Error message (only for "error" and "timeout") */
+  error?: string;
+}
+
+/**
+ * Structured report of a single aggregation run
+ */
+export interface RunReport {
+  /** ISO timestamp when the run started */
+  startedAt: string;
+  /** ISO timestamp when all sources finished */
+  finishedAt: string;
+  sources: SourceReport[];
+  /** Overlaps resolved by the deduplication stage */
+  dedup: DedupDecision[];
+  /** Pools left out because their token isn't in the token registry */
+  unknownAssets: UnknownAsset[];
+  /** Pools per category ID after grouping (missing in reports stored before it was added) */
+  categoryCounts?: Record<string, number>;
+  /** Sanity checks that failed; set when the post was held instead of published */
+  sanityIssues?: string[];
+}
+
+/**
+ * A pool whose token couldn't be classified (see services/tokens.ts)
+ */
+export interface UnknownAsset {
+  /** Pool ID (matches YieldOpportunity.id) */
+  id: string;
+  /** Protocol display name */
+  protocol: string;
+  /** Asset symbol as reported upstream */
+  asset: string;
+}
+
+/**
+ * Record of a pool (or whole protocol) reported by several sources
+ * and which source's data was kept
+ */
+export interface DedupDecision {
+  /** Match key (e.g., "address:0x8f1d…", "pool:evaa|usdt|main", "protocol:evaa") */
+  key: string;
+  /** How the overlap was detected */
+  matchedBy: "address" | "pool" | "protocol";
+  /** Protocol display name */
+  protocol: string;
+  /** Source ID whose data was kept */
+  winner: string;
+  /** Source IDs whose data was dropped */
+  dropped: string[];
+}
+
+/**
+ * Result of an aggregation run: grouped yields plus the run report
+ */
+export interface AggregationResult {
+  yields: GroupedYields;
+  report: RunReport;
 }
 
 /**
@@ -62,16 +187,43 @@ export interface DefiLlamaResponse {
 }
 
 /**
- * Grouped yields by asset type for formatting
+ * Rules deciding whether a pool belongs to a category
+ * All given rules must match
  */
-export interface GroupedYields {
-  TON: YieldOpportunity[];
-  STABLE: YieldOpportunity[];
-  BTC: YieldOpportunity[];
-  ETH: YieldOpportunity[];
-  TON_USDT: YieldOpportunity[];
+export interface CategoryRule {
+  /** Pool's asset type is one of these */
+  assetTypes?: AssetType[];
+  /** Pool is on one of these chains */
+  chains?: Chain[];
+  /** Only TON-USDT LP pools (true) - other categories never take them */
+  tonUsdtPool?: boolean;
 }
 
+/**
+ * A section of the daily post
+ */
+export interface CategoryDefinition {
+  /** Stable identifier used as the GroupedYields key (e.g., "STABLE", "TON_USDT") */
+  id: string;
+  emoji: string;
+  /** Section title without the emoji */
+  title: string;
+  /** Membership rules; pools go to the first category (in config order) they match */
+  match: CategoryRule;
+  /** Max pools shown per protocol in the daily post, keyed by protocol name */
+  protocolCaps?: Record<string, number>;
+  /** Leave the category out of the TOP 5 (e.g., impermanent loss risk) */
+  excludeFromTop?: boolean;
+  /** Keywords accepted by /yields (e.g., "stable", "usd") */
+  aliases?: string[];
+}
+
+/**
+ * Yields grouped by category ID for formatting
+ * Every configured category has an entry (possibly empty)
+ */
+export type GroupedYields = Record<string, YieldOpportunity[]>;
+
 /**
  * Yields grouped by protocol within an asset category
  */
@@ -82,12 +234,6 @@ export interface ProtocolGroup {
 }
 
 /**
- * Yields organized by asset type, then by protocol
+ * Yields organized by category ID, then by protocol
  */
-export interface OrganizedYields {
-  TON: ProtocolGroup[];
-  STABLE: ProtocolGroup[];
-  BTC: ProtocolGroup[];
-  ETH: ProtocolGroup[];
-  TON_USDT: ProtocolGroup[];
-}
+export type OrganizedYields = Record<string, ProtocolGroup[]>;